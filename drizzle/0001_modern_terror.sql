@@ -0,0 +1,3 @@
+ALTER TABLE "document" ADD COLUMN "title" text;--> statement-breakpoint
+ALTER TABLE "document" ADD COLUMN "byline" text;--> statement-breakpoint
+ALTER TABLE "document" ADD COLUMN "publishedAt" timestamp;
\ No newline at end of file
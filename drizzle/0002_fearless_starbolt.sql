@@ -0,0 +1,2 @@
+ALTER TABLE "document" ADD COLUMN "scrapeBackend" text;--> statement-breakpoint
+ALTER TABLE "document" ADD COLUMN "scrapeAttempts" jsonb;
\ No newline at end of file
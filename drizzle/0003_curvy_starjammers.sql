@@ -0,0 +1 @@
+ALTER TABLE "document" ADD COLUMN "followPagination" boolean DEFAULT false NOT NULL;
\ No newline at end of file
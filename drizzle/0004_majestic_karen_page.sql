@@ -0,0 +1 @@
+ALTER TABLE "document" ADD COLUMN "crawl" boolean DEFAULT false NOT NULL;
\ No newline at end of file
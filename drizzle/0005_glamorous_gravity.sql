@@ -0,0 +1,19 @@
+CREATE TABLE "feed_subscription" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" text NOT NULL,
+	"url" text NOT NULL,
+	"title" text,
+	"readingMinutes" integer NOT NULL,
+	"complexityLevel" text NOT NULL,
+	"outputLanguage" text NOT NULL,
+	"schedule" text DEFAULT 'daily' NOT NULL,
+	"lastSeenGuids" text[] DEFAULT '{}' NOT NULL,
+	"lastRunAt" timestamp,
+	"lastError" text,
+	"nextRunAt" timestamp DEFAULT now() NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "feed_subscription" ADD CONSTRAINT "feed_subscription_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "feed_subscription_userId_idx" ON "feed_subscription" USING btree ("userId");--> statement-breakpoint
+CREATE INDEX "feed_subscription_nextRunAt_idx" ON "feed_subscription" USING btree ("nextRunAt");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "extraction_cache" (
+	"contentHash" text PRIMARY KEY NOT NULL,
+	"markdown" text NOT NULL,
+	"images" text[] DEFAULT '{}' NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "document" ADD COLUMN "contentHash" text;--> statement-breakpoint
+CREATE INDEX "document_contentHash_idx" ON "document" USING btree ("contentHash");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "_DocumentToProcessedResult" ADD COLUMN "pageRange" text;--> statement-breakpoint
+ALTER TABLE "_DocumentToProcessedResult" ADD COLUMN "headings" text[];
\ No newline at end of file
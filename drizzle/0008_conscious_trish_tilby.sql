@@ -0,0 +1,2 @@
+ALTER TABLE "processed_result" ADD COLUMN "summarizerProvider" text;--> statement-breakpoint
+ALTER TABLE "processed_result" ADD COLUMN "summarizerModel" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "processed_result" ADD COLUMN "outputWordCount" integer;--> statement-breakpoint
+ALTER TABLE "processed_result" ADD COLUMN "outputReadingMinutes" real;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "processed_result" ADD COLUMN "focus" text;--> statement-breakpoint
+ALTER TABLE "processed_result" ADD COLUMN "focusQuestions" text[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "summary_preset" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"readingMinutes" integer NOT NULL,
+	"complexityLevel" text NOT NULL,
+	"outputLanguage" text NOT NULL,
+	"outputFormats" text[] DEFAULT '{"formatted","breadtext"}' NOT NULL,
+	"focus" text,
+	"focusQuestions" text[] DEFAULT '{}' NOT NULL,
+	"isDefault" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "processed_result" ADD COLUMN "outputFormats" text[] DEFAULT '{"formatted","breadtext"}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "summary_preset" ADD CONSTRAINT "summary_preset_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "summary_preset_userId_idx" ON "summary_preset" USING btree ("userId");
\ No newline at end of file
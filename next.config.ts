@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ["mupdf", "sharp"],
+  serverExternalPackages: ["mupdf", "sharp", "tesseract.js", "@napi-rs/canvas"],
   images: {
     remotePatterns: [
       {
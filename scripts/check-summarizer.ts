@@ -0,0 +1,63 @@
+/**
+ * Drive the summarization pipeline end to end with the fake provider: a source
+ * over the input limit is summarized in parts, and a summary over its reading
+ * time is condensed. Run with `npm run check:summarizer`.
+ */
+import assert from "node:assert/strict";
+import { condenseSource, fitWordBudget, streamFormattedSummary, type SummarizeParams } from "../src/lib/summarize";
+import { fakeSummarizer } from "../src/lib/summarizers/fake";
+import type { Summarizer } from "../src/lib/summarizers";
+import { WORDS_PER_MINUTE, countReadableWords } from "../src/lib/word-count";
+
+const summarizer: Summarizer = { provider: fakeSummarizer, model: "echo", maxInputWords: 500 };
+
+function section(title: string, words: number): string {
+  const paragraph = Array.from({ length: words }, (_, i) => `${title.toLowerCase()}${i}`).join(" ");
+  return `## ${title}\n\n${paragraph}`;
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text.trim();
+}
+
+async function main() {
+  const params: SummarizeParams = {
+    markdown: ["Alpha", "Beta", "Gamma", "Delta"].map((title) => section(title, 300)).join("\n\n"),
+    images: [],
+    readingMinutes: 1,
+    complexity: "standard",
+    language: "English",
+  };
+
+  const progress: number[] = [];
+  const condensed = await condenseSource(params, summarizer, {
+    onProgress: ({ part, totalParts }) => progress.push(part / totalParts),
+  });
+  assert.ok(condensed.mergedParts && condensed.mergedParts > 1, "long source is summarized in parts");
+  assert.equal(progress.at(-1), 1, "progress reaches the last part");
+  assert.match(condensed.markdown, /^--- Part 1 of \d+ ---/);
+  assert.ok(countReadableWords(condensed.markdown) <= summarizer.maxInputWords, "parts fit in one merge request");
+
+  const short = { ...params, markdown: section("Short", 100) };
+  assert.equal(await condenseSource(short, summarizer), short, "a source within the limit is left as is");
+
+  const summary = await collect(streamFormattedSummary(condensed, summarizer));
+  assert.ok(summary, "the merged summary is not empty");
+
+  const long = section("Long", 2 * WORDS_PER_MINUTE);
+  const fitted = await fitWordBudget(long, "formatted", params, summarizer);
+  assert.ok(fitted.condensed, "a summary over its word budget is condensed");
+  assert.ok(fitted.words < countReadableWords(long));
+
+  const within = await fitWordBudget(summary, "formatted", params, summarizer);
+  assert.equal(within.condensed, false, "a summary within its word budget is kept");
+
+  console.log("Summarizer pipeline OK");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
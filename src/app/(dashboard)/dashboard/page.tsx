@@ -3,9 +3,27 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/components/toast";
-import { COMPLEXITY_LEVELS, LANGUAGES, MAX_FILE_SIZE, MAX_FILES } from "@/lib/constants";
+import { COMPLEXITY_LEVELS, DOCUMENT_EXTENSIONS, LANGUAGES, MAX_FILE_SIZE, MAX_CRAWL_PAGES, MAX_FILES, MAX_PAGINATION_PAGES } from "@/lib/constants";
+import { MAX_FOCUS_LENGTH, focusQuestionsFromText } from "@/lib/focus";
+import type { SummaryPreset } from "@/lib/presets";
+import PresetPicker from "@/components/preset-picker";
+
+const ACCEPTED_TYPES = [...DOCUMENT_EXTENSIONS, ".zip"].join(",");
+
+// Files where a page range applies (PDF pages, PowerPoint slides) and where sections are picked by heading
+const PAGED_EXTENSIONS = ["pdf", "pptx"];
+const SECTIONED_EXTENSIONS = ["docx", "md", "html", "htm", "epub"];
+
+function selectionKind(fileName: string): "pages" | "sections" | null {
+  const ext = fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (PAGED_EXTENSIONS.includes(ext)) return "pages";
+  if (SECTIONED_EXTENSIONS.includes(ext)) return "sections";
+  return null;
+}
 
-const ACCEPTED_TYPES = ".pdf,.doc,.docx,.ppt,.pptx,.xls,.xlsx,.txt,.md,.rtf,.csv,.png,.jpg,.jpeg,.gif,.bmp,.tiff,.webp,.svg,.html,.htm";
+function parseHeadings(value: string): string[] {
+  return value.split(",").map((h) => h.trim()).filter(Boolean);
+}
 
 export default function DashboardPage() {
   const router = useRouter();
@@ -13,10 +31,20 @@ export default function DashboardPage() {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [files, setFiles] = useState<File[]>([]);
+  // Optional page range or comma-separated headings per file and per URL, by index
+  const [fileSelections, setFileSelections] = useState<string[]>([]);
   const [urls, setUrls] = useState<string[]>([""]);
+  const [urlSections, setUrlSections] = useState<string[]>([""]);
+  const [followPagination, setFollowPagination] = useState(false);
+  const [crawl, setCrawl] = useState(false);
   const [readingMinutes, setReadingMinutes] = useState(5);
   const [complexity, setComplexity] = useState("simple");
   const [language, setLanguage] = useState("English");
+  const [focus, setFocus] = useState("");
+  // One question per line
+  const [focusQuestions, setFocusQuestions] = useState("");
+  const [speedReading, setSpeedReading] = useState(true);
+  const [presets, setPresets] = useState<SummaryPreset[]>([]);
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<string | null>(null);
@@ -31,6 +59,30 @@ export default function DashboardPage() {
       .catch(() => {});
   }, []);
 
+  // Fetch saved presets on mount and start from the default one
+  useEffect(() => {
+    fetch("/api/presets")
+      .then((res) => res.ok ? res.json() : null)
+      .then((data) => {
+        if (!data) return;
+        setPresets(data.presets);
+        const preset = data.presets.find((p: SummaryPreset) => p.isDefault);
+        if (preset) applyPreset(preset);
+      })
+      .catch(() => {});
+  }, []);
+
+  function applyPreset(preset: SummaryPreset) {
+    setReadingMinutes(preset.readingMinutes);
+    setComplexity(preset.complexityLevel);
+    setLanguage(preset.outputLanguage);
+    setFocus(preset.focus ?? "");
+    setFocusQuestions(preset.focusQuestions.join("\n"));
+    setSpeedReading(preset.outputFormats.includes("breadtext"));
+  }
+
+  const outputFormats = speedReading ? ["formatted", "breadtext"] : ["formatted"];
+
   // Warn before leaving with unsaved work
   const hasUnsavedWork = files.length > 0 || urls.some((u) => u.trim() !== "");
   useEffect(() => {
@@ -70,23 +122,35 @@ export default function DashboardPage() {
 
     if (validFiles.length > 0) {
       setFiles((prev) => [...prev, ...validFiles]);
+      setFileSelections((prev) => [...prev, ...validFiles.map(() => "")]);
     }
   }, [files.length, toast]);
 
   function removeFile(index: number) {
     setFiles((prev) => prev.filter((_, i) => i !== index));
+    setFileSelections((prev) => prev.filter((_, i) => i !== index));
+  }
+
+  function updateFileSelection(index: number, value: string) {
+    setFileSelections((prev) => prev.map((s, i) => (i === index ? value : s)));
   }
 
   function addUrlField() {
     setUrls((prev) => [...prev, ""]);
+    setUrlSections((prev) => [...prev, ""]);
   }
 
   function updateUrl(index: number, value: string) {
     setUrls((prev) => prev.map((u, i) => (i === index ? value : u)));
   }
 
+  function updateUrlSections(index: number, value: string) {
+    setUrlSections((prev) => prev.map((s, i) => (i === index ? value : s)));
+  }
+
   function removeUrl(index: number) {
     setUrls((prev) => prev.filter((_, i) => i !== index));
+    setUrlSections((prev) => prev.filter((_, i) => i !== index));
   }
 
   function handleDrop(e: React.DragEvent) {
@@ -101,7 +165,10 @@ export default function DashboardPage() {
     e.preventDefault();
     setError("");
 
-    const validUrls = urls.filter((u) => u.trim() !== "");
+    const urlEntries = urls
+      .map((url, i) => ({ url: url.trim(), headings: parseHeadings(urlSections[i] ?? "") }))
+      .filter((entry) => entry.url !== "");
+    const validUrls = urlEntries.map((entry) => (entry.headings.length > 0 ? entry : entry.url));
     if (files.length === 0 && validUrls.length === 0) {
       setError("Please upload at least one file or enter a URL");
       return;
@@ -116,7 +183,15 @@ export default function DashboardPage() {
 
     try {
       // Upload files to blob storage
-      const uploadedFiles: { fileName: string; blobUrl: string; fileType: string; fileSize: number }[] = [];
+      const uploadedFiles: {
+        fileName: string;
+        blobUrl: string;
+        fileType: string;
+        fileSize: number;
+        contentHash: string;
+        pageRange?: string;
+        headings?: string[];
+      }[] = [];
 
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
@@ -137,11 +212,16 @@ export default function DashboardPage() {
         }
 
         const data = await res.json();
+        const selection = fileSelections[i]?.trim();
+        const kind = selectionKind(file.name);
         uploadedFiles.push({
           fileName: file.name,
           blobUrl: data.url,
           fileType: file.type || "application/octet-stream",
           fileSize: file.size,
+          contentHash: data.contentHash,
+          ...(selection && kind === "pages" ? { pageRange: selection } : {}),
+          ...(selection && kind === "sections" ? { headings: parseHeadings(selection) } : {}),
         });
       }
 
@@ -154,9 +234,14 @@ export default function DashboardPage() {
         body: JSON.stringify({
           files: uploadedFiles,
           urls: validUrls,
+          followPagination,
+          crawl,
           readingMinutes,
           complexity,
           language,
+          focus,
+          focusQuestions: focusQuestionsFromText(focusQuestions),
+          outputFormats,
         }),
       });
 
@@ -266,7 +351,7 @@ export default function DashboardPage() {
                   <span className="font-medium text-brand-600">Click to browse</span> or drag and drop
                 </p>
                 <p className="text-xs text-gray-400 mt-1">
-                  PDF, Word, Excel, PowerPoint, images, and more &middot; Max {MAX_FILES} files, {MAX_FILE_SIZE / (1024 * 1024)}MB each
+                  PDF, Word, Excel, PowerPoint, images, ZIP archives, and more &middot; Max {MAX_FILES} files, {MAX_FILE_SIZE / (1024 * 1024)}MB each
                 </p>
               </div>
             </div>
@@ -286,6 +371,16 @@ export default function DashboardPage() {
                     <span className="text-sm text-gray-700 truncate">{file.name}</span>
                     <span className="text-xs text-gray-400 shrink-0">{formatFileSize(file.size)}</span>
                   </div>
+                  {selectionKind(file.name) && (
+                    <input
+                      type="text"
+                      value={fileSelections[i] ?? ""}
+                      onChange={(e) => updateFileSelection(i, e.target.value)}
+                      placeholder={selectionKind(file.name) === "pages" ? "Pages, e.g. 3-5, 8" : "Sections, e.g. Intro, Results"}
+                      aria-label={`Only include these ${selectionKind(file.name)} of ${file.name}`}
+                      className="ml-auto w-44 px-2.5 py-1 border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-xs shrink-0 transition-shadow"
+                    />
+                  )}
                   <button
                     type="button"
                     onClick={() => removeFile(i)}
@@ -324,6 +419,14 @@ export default function DashboardPage() {
                     className="w-full pl-10 pr-3 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm transition-shadow"
                   />
                 </div>
+                <input
+                  type="text"
+                  value={urlSections[i] ?? ""}
+                  onChange={(e) => updateUrlSections(i, e.target.value)}
+                  placeholder="Sections (optional)"
+                  aria-label="Only include sections with these headings, comma separated"
+                  className="w-44 px-3 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm transition-shadow"
+                />
                 {urls.length > 1 && (
                   <button
                     type="button"
@@ -346,6 +449,24 @@ export default function DashboardPage() {
           >
             + Add another URL
           </button>
+          <label className="mt-3 flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={followPagination}
+              onChange={(e) => setFollowPagination(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500 cursor-pointer shrink-0"
+            />
+            Follow &ldquo;next page&rdquo; links for articles split across pages (up to {MAX_PAGINATION_PAGES} pages)
+          </label>
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={crawl}
+              onChange={(e) => setCrawl(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500 cursor-pointer shrink-0"
+            />
+            Crawl the whole section under each URL, e.g. a docs site (up to {MAX_CRAWL_PAGES} pages)
+          </label>
         </div>
 
         {/* Divider */}
@@ -354,6 +475,21 @@ export default function DashboardPage() {
         {/* Settings */}
         <div>
           <h3 className="text-sm font-medium text-gray-700 mb-3">Output Settings</h3>
+          <div className="mb-4">
+            <PresetPicker
+              presets={presets}
+              onApply={applyPreset}
+              current={{
+                readingMinutes,
+                complexityLevel: complexity,
+                outputLanguage: language,
+                outputFormats,
+                focus: focus.trim() || null,
+                focusQuestions: focusQuestionsFromText(focusQuestions),
+              }}
+              onPresetsChange={setPresets}
+            />
+          </div>
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
             <div>
               <label htmlFor="readingMinutes" className="block text-xs font-medium text-gray-500 mb-1.5">
@@ -406,6 +542,46 @@ export default function DashboardPage() {
               </select>
             </div>
           </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+            <div>
+              <label htmlFor="focus" className="block text-xs font-medium text-gray-500 mb-1.5">
+                Focus (optional)
+              </label>
+              <textarea
+                id="focus"
+                rows={3}
+                maxLength={MAX_FOCUS_LENGTH}
+                value={focus}
+                onChange={(e) => setFocus(e.target.value)}
+                placeholder="e.g. obligations and deadlines"
+                className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm resize-none transition-shadow"
+              />
+            </div>
+            <div>
+              <label htmlFor="focusQuestions" className="block text-xs font-medium text-gray-500 mb-1.5">
+                Questions to answer (optional, one per line)
+              </label>
+              <textarea
+                id="focusQuestions"
+                rows={3}
+                value={focusQuestions}
+                onChange={(e) => setFocusQuestions(e.target.value)}
+                placeholder="e.g. Which APIs changed?"
+                className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm resize-none transition-shadow"
+              />
+            </div>
+          </div>
+
+          <label className="mt-4 flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={speedReading}
+              onChange={(e) => setSpeedReading(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500 cursor-pointer shrink-0"
+            />
+            Also write a speed-reading version
+          </label>
         </div>
 
         {error && (
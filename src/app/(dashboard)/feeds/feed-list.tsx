@@ -0,0 +1,261 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/components/toast";
+import ConfirmDialog from "@/components/confirm-dialog";
+import { COMPLEXITY_LEVELS, FEED_SCHEDULES, LANGUAGES, MAX_FEED_ENTRIES } from "@/lib/constants";
+import { formatRelativeDate } from "@/lib/format-date";
+
+interface FeedItem {
+  id: string;
+  url: string;
+  title: string | null;
+  readingMinutes: number;
+  complexityLevel: string;
+  outputLanguage: string;
+  schedule: string;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+export default function FeedList({ feeds: initialFeeds }: { feeds: FeedItem[] }) {
+  const { toast } = useToast();
+  const [feeds, setFeeds] = useState(initialFeeds);
+  const [url, setUrl] = useState("");
+  const [schedule, setSchedule] = useState<string>(FEED_SCHEDULES[0].value);
+  const [readingMinutes, setReadingMinutes] = useState(5);
+  const [complexity, setComplexity] = useState("simple");
+  const [language, setLanguage] = useState("English");
+  const [error, setError] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    if (!url.trim()) {
+      setError("Enter a feed URL");
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const res = await fetch("/api/feeds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: url.trim(), schedule, readingMinutes, complexity, language }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to add feed");
+        return;
+      }
+      setFeeds((prev) => [data.feed, ...prev]);
+      setUrl("");
+      toast("Feed added", "success");
+    } catch {
+      setError("Failed to add feed");
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    setConfirmDelete(null);
+    setDeletingId(id);
+    try {
+      const res = await fetch(`/api/feeds/${id}/delete`, { method: "DELETE" });
+      if (!res.ok) {
+        toast("Failed to remove feed", "error");
+        return;
+      }
+      setFeeds((prev) => prev.filter((f) => f.id !== id));
+      toast("Feed removed", "success");
+    } catch {
+      toast("Failed to remove feed", "error");
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Feeds</h2>
+        <span className="text-sm text-gray-400">{feeds.length} feed{feeds.length !== 1 ? "s" : ""}</span>
+      </div>
+
+      <form onSubmit={handleAdd} className="bg-white border border-gray-200 rounded-xl p-5 mb-6 space-y-4">
+        <div>
+          <label htmlFor="feedUrl" className="block text-sm font-medium text-gray-700 mb-1.5">
+            RSS or Atom feed URL
+          </label>
+          <input
+            id="feedUrl"
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/feed.xml"
+            className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm transition-shadow"
+          />
+          <p className="mt-1.5 text-xs text-gray-400">
+            New entries are summarized together into a digest on each run (up to {MAX_FEED_ENTRIES} entries per digest).
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="schedule" className="block text-xs font-medium text-gray-500 mb-1.5">
+              Schedule
+            </label>
+            <select
+              id="schedule"
+              value={schedule}
+              onChange={(e) => setSchedule(e.target.value)}
+              className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm bg-white transition-shadow"
+            >
+              {FEED_SCHEDULES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="readingMinutes" className="block text-xs font-medium text-gray-500 mb-1.5">
+              Reading Time (minutes)
+            </label>
+            <input
+              id="readingMinutes"
+              type="number"
+              min={1}
+              max={120}
+              value={readingMinutes}
+              onChange={(e) => setReadingMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm transition-shadow"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="complexity" className="block text-xs font-medium text-gray-500 mb-1.5">
+              Complexity
+            </label>
+            <select
+              id="complexity"
+              value={complexity}
+              onChange={(e) => setComplexity(e.target.value)}
+              className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm bg-white transition-shadow"
+            >
+              {COMPLEXITY_LEVELS.map((level) => (
+                <option key={level.value} value={level.value}>
+                  {level.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="language" className="block text-xs font-medium text-gray-500 mb-1.5">
+              Output Language
+            </label>
+            <select
+              id="language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm bg-white transition-shadow"
+            >
+              {LANGUAGES.map((lang) => (
+                <option key={lang} value={lang}>
+                  {lang}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg px-3.5 py-2.5 animate-slide-down">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={adding}
+          className="px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors shadow-sm cursor-pointer"
+        >
+          {adding ? "Adding..." : "Add Feed"}
+        </button>
+      </form>
+
+      {feeds.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-xl p-12 text-center">
+          <p className="text-gray-500 text-sm mb-1">No feeds yet</p>
+          <p className="text-gray-400 text-xs">Digests of new entries will appear in your history</p>
+        </div>
+      ) : (
+        <div className="space-y-2" role="list">
+          {feeds.map((feed) => {
+            const complexityLabel =
+              COMPLEXITY_LEVELS.find((l) => l.value === feed.complexityLevel)?.label ||
+              feed.complexityLevel;
+            const scheduleLabel =
+              FEED_SCHEDULES.find((s) => s.value === feed.schedule)?.label || feed.schedule;
+
+            return (
+              <div
+                key={feed.id}
+                role="listitem"
+                className="bg-white border border-gray-200 rounded-xl px-4 py-3.5 group"
+              >
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-900 truncate">{feed.title || feed.url}</p>
+                    {feed.title && <p className="text-xs text-gray-400 truncate">{feed.url}</p>}
+                    <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 mt-1">
+                      <span className="text-xs text-gray-400">{scheduleLabel}</span>
+                      <span className="text-xs text-gray-300">&middot;</span>
+                      <span className="text-xs text-gray-400">{feed.readingMinutes} min</span>
+                      <span className="text-xs text-gray-300">&middot;</span>
+                      <span className="text-xs text-gray-400">{complexityLabel}</span>
+                      <span className="text-xs text-gray-300">&middot;</span>
+                      <span className="text-xs text-gray-400">{feed.outputLanguage}</span>
+                      {feed.lastRunAt && (
+                        <>
+                          <span className="text-xs text-gray-300">&middot;</span>
+                          <span className="text-xs text-gray-400">Last checked: {formatRelativeDate(feed.lastRunAt)}</span>
+                        </>
+                      )}
+                    </div>
+                    {feed.lastError && (
+                      <p className="text-xs text-red-600 mt-1 truncate">Last run failed: {feed.lastError}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setConfirmDelete(feed.id)}
+                    disabled={deletingId === feed.id}
+                    className="ml-4 shrink-0 text-xs font-medium text-gray-400 hover:text-red-600 transition-colors cursor-pointer disabled:opacity-50"
+                  >
+                    {deletingId === feed.id ? "Removing..." : "Remove"}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!confirmDelete}
+        title="Remove feed"
+        message="No further digests will be created for this feed. Digests already created stay in your history."
+        confirmLabel="Remove"
+        destructive
+        onConfirm={() => confirmDelete && handleDelete(confirmDelete)}
+        onCancel={() => setConfirmDelete(null)}
+      />
+    </div>
+  );
+}
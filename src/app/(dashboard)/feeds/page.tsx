@@ -0,0 +1,37 @@
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { db } from "@/lib/db";
+import { feedSubscription } from "@/lib/db/schema";
+import { eq, desc } from "drizzle-orm";
+import FeedList from "./feed-list";
+
+export default async function FeedsPage() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const feeds = await db.query.feedSubscription.findMany({
+    where: eq(feedSubscription.userId, session.user.id),
+    columns: { lastSeenGuids: false },
+    orderBy: desc(feedSubscription.createdAt),
+  });
+
+  const serialized = feeds.map((f) => ({
+    id: f.id,
+    url: f.url,
+    title: f.title,
+    readingMinutes: f.readingMinutes,
+    complexityLevel: f.complexityLevel,
+    outputLanguage: f.outputLanguage,
+    schedule: f.schedule,
+    lastRunAt: f.lastRunAt?.toISOString() ?? null,
+    lastError: f.lastError,
+  }));
+
+  return <FeedList feeds={serialized} />;
+}
@@ -2,8 +2,9 @@ import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/db";
-import { processedResult } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
+import { processedResult, summaryPreset } from "@/lib/db/schema";
+import { eq, and, asc } from "drizzle-orm";
+import { toSummaryPreset } from "@/lib/presets";
 import ResultView from "./result-view";
 
 export default async function ResultPage({ params }: { params: Promise<{ id: string }> }) {
@@ -24,6 +25,7 @@ export default async function ResultPage({ params }: { params: Promise<{ id: str
         with: {
           document: {
             columns: {
+              id: true,
               fileName: true,
               isUrl: true,
               sourceUrl: true,
@@ -38,6 +40,11 @@ export default async function ResultPage({ params }: { params: Promise<{ id: str
     redirect("/history");
   }
 
+  const presets = await db.query.summaryPreset.findMany({
+    where: eq(summaryPreset.userId, session.user.id),
+    orderBy: asc(summaryPreset.name),
+  });
+
   return (
     <ResultView
       result={{
@@ -47,12 +54,18 @@ export default async function ResultPage({ params }: { params: Promise<{ id: str
         markdownContent: result.markdownContent,
         extractedImages: result.extractedImages,
         readingMinutes: result.readingMinutes,
+        outputWordCount: result.outputWordCount,
+        outputReadingMinutes: result.outputReadingMinutes,
         complexityLevel: result.complexityLevel,
         outputLanguage: result.outputLanguage,
+        focus: result.focus,
+        focusQuestions: result.focusQuestions,
+        outputFormats: result.outputFormats,
         createdAt: result.createdAt.toISOString(),
         documents: result.documentToProcessedResults.map((dtr) => dtr.document),
         needsProcessing: !result.outputContent,
       }}
+      presets={presets.map(toSummaryPreset)}
     />
   );
 }
@@ -7,6 +7,10 @@ import RsvpReader from "@/components/rsvp-reader";
 import { useToast } from "@/components/toast";
 import { COMPLEXITY_LEVELS, LANGUAGES } from "@/lib/constants";
 import { formatRelativeDate } from "@/lib/format-date";
+import { MAX_FOCUS_LENGTH, focusQuestionsFromText } from "@/lib/focus";
+import { countReadableWords, readingMinutesFor } from "@/lib/word-count";
+import type { SummaryPreset } from "@/lib/presets";
+import PresetPicker from "@/components/preset-picker";
 
 interface ResultViewProps {
   result: {
@@ -16,15 +20,38 @@ interface ResultViewProps {
     markdownContent: string;
     extractedImages: string[];
     readingMinutes: number;
+    /** Measured on the saved output; null for results saved before it was recorded. */
+    outputWordCount: number | null;
+    outputReadingMinutes: number | null;
     complexityLevel: string;
     outputLanguage: string;
+    focus: string | null;
+    focusQuestions: string[];
+    outputFormats: string[];
     createdAt: string;
-    documents: { fileName: string; isUrl: boolean; sourceUrl: string | null }[];
+    documents: { id: string; fileName: string; isUrl: boolean; sourceUrl: string | null }[];
     needsProcessing: boolean;
   };
+  /** The user's saved presets, offered in the resummarize panel. */
+  presets: SummaryPreset[];
 }
 
-export default function ResultView({ result }: ResultViewProps) {
+interface DocumentProgress {
+  stage: "ocr" | "crawl" | "summarize";
+  page: number;
+  totalPages: number;
+  url?: string;
+  /** Label for progress that is not about a single document. */
+  name?: string;
+}
+
+const PROGRESS_LABELS: Record<DocumentProgress["stage"], string> = {
+  ocr: "Reading pages",
+  crawl: "Fetching pages",
+  summarize: "Summarizing parts",
+};
+
+export default function ResultView({ result, presets }: ResultViewProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [showRsvp, setShowRsvp] = useState(false);
@@ -34,6 +61,10 @@ export default function ResultView({ result }: ResultViewProps) {
   const [newMinutes, setNewMinutes] = useState(result.readingMinutes);
   const [newComplexity, setNewComplexity] = useState(result.complexityLevel);
   const [newLanguage, setNewLanguage] = useState(result.outputLanguage);
+  const [newFocus, setNewFocus] = useState(result.focus ?? "");
+  // One question per line
+  const [newFocusQuestions, setNewFocusQuestions] = useState(result.focusQuestions.join("\n"));
+  const [newSpeedReading, setNewSpeedReading] = useState(result.outputFormats.includes("breadtext"));
   const [reprocessing, setReprocessing] = useState(false);
 
   // Streaming state
@@ -42,6 +73,13 @@ export default function ResultView({ result }: ResultViewProps) {
   const [formattedContent, setFormattedContent] = useState(result.outputContent);
   const [breadtextContent, setBreadtextContent] = useState(result.outputBreadtext);
   const [errors, setErrors] = useState<string[]>([]);
+  const [stats, setStats] = useState(
+    result.outputWordCount !== null && result.outputReadingMinutes !== null
+      ? { wordCount: result.outputWordCount, readingMinutes: result.outputReadingMinutes }
+      : null
+  );
+  // Per-document progress of long extraction steps, keyed by document id
+  const [progress, setProgress] = useState<Record<string, DocumentProgress>>({});
   const [formattedDone, setFormattedDone] = useState(!result.needsProcessing);
   const [breadtextDone, setBreadtextDone] = useState(!result.needsProcessing);
   const [connectionKey, setConnectionKey] = useState(0);
@@ -100,6 +138,13 @@ export default function ResultView({ result }: ResultViewProps) {
             setStreamingStatus(data.message);
             break;
 
+          case "progress":
+            setProgress((prev) => ({
+              ...prev,
+              [data.doc]: { stage: data.stage, page: data.page, totalPages: data.totalPages, url: data.url, name: data.name },
+            }));
+            break;
+
           case "formatted_chunk":
             setFormattedContent((prev) => prev + data.text);
             break;
@@ -116,6 +161,10 @@ export default function ResultView({ result }: ResultViewProps) {
             setBreadtextContent(data.text);
             break;
 
+          case "stats":
+            setStats({ wordCount: data.wordCount, readingMinutes: data.readingMinutes });
+            break;
+
           case "formatted_done":
             setFormattedDone(true);
             break;
@@ -178,6 +227,15 @@ export default function ResultView({ result }: ResultViewProps) {
     COMPLEXITY_LEVELS.find((l) => l.value === result.complexityLevel)?.label ||
     result.complexityLevel;
 
+  function applyPreset(preset: SummaryPreset) {
+    setNewMinutes(preset.readingMinutes);
+    setNewComplexity(preset.complexityLevel);
+    setNewLanguage(preset.outputLanguage);
+    setNewFocus(preset.focus ?? "");
+    setNewFocusQuestions(preset.focusQuestions.join("\n"));
+    setNewSpeedReading(preset.outputFormats.includes("breadtext"));
+  }
+
   async function handleReprocess() {
     setReprocessing(true);
     try {
@@ -189,6 +247,9 @@ export default function ResultView({ result }: ResultViewProps) {
           readingMinutes: newMinutes,
           complexity: newComplexity,
           language: newLanguage,
+          focus: newFocus,
+          focusQuestions: focusQuestionsFromText(newFocusQuestions),
+          outputFormats: newSpeedReading ? ["formatted", "breadtext"] : ["formatted"],
         }),
       });
 
@@ -241,14 +302,16 @@ export default function ResultView({ result }: ResultViewProps) {
     setErrors([]);
     setFormattedContent("");
     setBreadtextContent("");
+    setStats(null);
     setFormattedDone(false);
     setBreadtextDone(false);
     setConnectionKey((k) => k + 1);
   }
 
-  const wordCount = formattedContent.split(/\s+/).filter(Boolean).length;
-  const estimatedReadTime = Math.max(1, Math.round(wordCount / 230));
-  const showTabs = !!(breadtextContent || isStreaming);
+  // Counted the same way as on the server until the measured numbers arrive
+  const wordCount = stats?.wordCount ?? countReadableWords(formattedContent);
+  const estimatedReadTime = Math.max(1, Math.round(stats?.readingMinutes ?? readingMinutesFor(wordCount)));
+  const showTabs = !!(breadtextContent || (isStreaming && result.outputFormats.includes("breadtext")));
   const effectiveTab = showTabs ? activeTab : "formatted";
 
   const spinnerSvg = (
@@ -288,6 +351,37 @@ export default function ResultView({ result }: ResultViewProps) {
           {isStreaming && !formattedContent && (
             <p className="text-sm text-gray-500 mt-1.5">{streamingStatus}</p>
           )}
+          {isStreaming && !formattedContent && Object.keys(progress).length > 0 && (
+            <div className="mt-3 space-y-2.5 w-72 sm:w-96">
+              {Object.entries(progress).map(([docId, p]) => {
+                const name = result.documents.find((d) => d.id === docId)?.fileName ?? p.name ?? p.url ?? "Document";
+                const percent = Math.round((p.page / Math.max(1, p.totalPages)) * 100);
+                return (
+                  <div key={docId}>
+                    <div className="flex items-center justify-between gap-3 text-xs text-gray-500 mb-1">
+                      <span className="truncate">{name}</span>
+                      <span className="shrink-0">
+                        {PROGRESS_LABELS[p.stage] ?? "Processing"} {p.page} of {p.totalPages}
+                      </span>
+                    </div>
+                    <div
+                      className="h-1.5 bg-gray-100 rounded-full overflow-hidden"
+                      role="progressbar"
+                      aria-label={`${name} progress`}
+                      aria-valuemin={0}
+                      aria-valuemax={p.totalPages}
+                      aria-valuenow={p.page}
+                    >
+                      <div
+                        className="h-full bg-brand-500 rounded-full transition-all duration-300"
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
         {formattedContent && (
           <div className="flex gap-2 shrink-0 no-print">
@@ -337,6 +431,11 @@ export default function ResultView({ result }: ResultViewProps) {
       {showReprocess && !isStreaming && (
         <div className="mb-6 bg-white border border-gray-200 rounded-xl p-5 animate-slide-down no-print">
           <h3 className="text-sm font-medium text-gray-900 mb-3">Resummarize with different settings</h3>
+          {presets.length > 0 && (
+            <div className="mb-4">
+              <PresetPicker presets={presets} onApply={applyPreset} />
+            </div>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
             <div>
               <label className="block text-xs font-medium text-gray-500 mb-1.5">Reading Time (min)</label>
@@ -374,6 +473,44 @@ export default function ResultView({ result }: ResultViewProps) {
               </select>
             </div>
           </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+            <div>
+              <label htmlFor="reprocessFocus" className="block text-xs font-medium text-gray-500 mb-1.5">
+                Focus (optional)
+              </label>
+              <textarea
+                id="reprocessFocus"
+                rows={3}
+                maxLength={MAX_FOCUS_LENGTH}
+                value={newFocus}
+                onChange={(e) => setNewFocus(e.target.value)}
+                placeholder="e.g. obligations and deadlines"
+                className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-brand-500 transition-shadow"
+              />
+            </div>
+            <div>
+              <label htmlFor="reprocessFocusQuestions" className="block text-xs font-medium text-gray-500 mb-1.5">
+                Questions to answer (optional, one per line)
+              </label>
+              <textarea
+                id="reprocessFocusQuestions"
+                rows={3}
+                value={newFocusQuestions}
+                onChange={(e) => setNewFocusQuestions(e.target.value)}
+                placeholder="e.g. Which APIs changed?"
+                className="w-full px-3.5 py-2.5 border border-gray-300 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-brand-500 transition-shadow"
+              />
+            </div>
+          </div>
+          <label className="mt-4 flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={newSpeedReading}
+              onChange={(e) => setNewSpeedReading(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500 cursor-pointer shrink-0"
+            />
+            Also write a speed-reading version
+          </label>
           <button
             onClick={handleReprocess}
             disabled={reprocessing}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { feedSubscription, user } from "@/lib/db/schema";
+import { and, eq, lte, asc, or, isNull } from "drizzle-orm";
+import { nextRunAfter, runFeedDigest } from "@/lib/feeds";
+
+// Subscriptions handled per invocation; the rest stay due for the next one
+const MAX_FEEDS_PER_RUN = 20;
+// No new subscription or entry is started after this, leaving room within
+// maxDuration for a scrape already under way
+const RUN_BUDGET_MS = 180_000;
+
+export const maxDuration = 300;
+
+/**
+ * Scheduled job (see vercel.json): builds a digest for every feed subscription
+ * that is due, skipping those of banned users. Work left when the run's time
+ * budget is used up stays due for the next run. Requests must carry
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const rows = await db
+    .select({ subscription: feedSubscription })
+    .from(feedSubscription)
+    .innerJoin(user, eq(user.id, feedSubscription.userId))
+    .where(
+      and(
+        lte(feedSubscription.nextRunAt, new Date()),
+        or(eq(user.banned, false), isNull(user.banned))
+      )
+    )
+    .orderBy(asc(feedSubscription.nextRunAt))
+    .limit(MAX_FEEDS_PER_RUN);
+
+  let processed = 0;
+  let digests = 0;
+  let failed = 0;
+  for (const { subscription } of rows) {
+    if (Date.now() >= deadline) break;
+    processed++;
+    try {
+      if (await runFeedDigest(subscription, { deadline })) digests++;
+    } catch (err) {
+      failed++;
+      const msg = err instanceof Error ? err.message : "Unknown error";
+      // Unseen entries are kept, so they are picked up on the next scheduled run
+      const now = new Date();
+      await db
+        .update(feedSubscription)
+        .set({ lastRunAt: now, nextRunAt: nextRunAfter(subscription.schedule, now), lastError: msg.slice(0, 500) })
+        .where(eq(feedSubscription.id, subscription.id));
+    }
+  }
+
+  return NextResponse.json({ processed, digests, failed });
+}
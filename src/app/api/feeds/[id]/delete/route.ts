@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { feedSubscription } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const subscription = await db.query.feedSubscription.findFirst({
+    where: and(eq(feedSubscription.id, id), eq(feedSubscription.userId, session.user.id)),
+  });
+
+  if (!subscription) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  // Digests already created stay in the user's history
+  await db.delete(feedSubscription).where(eq(feedSubscription.id, id));
+
+  return NextResponse.json({ success: true });
+}
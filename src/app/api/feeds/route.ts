@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { feedSubscription } from "@/lib/db/schema";
+import { eq, and, count, desc } from "drizzle-orm";
+import { fetchFeed, mergeSeenGuids, nextRunAfter } from "@/lib/feeds";
+import { isAllowedUrl } from "@/lib/safe-fetch";
+import { COMPLEXITY_LEVELS, FEED_SCHEDULES, LANGUAGES, MAX_FEEDS_PER_USER } from "@/lib/constants";
+
+const VALID_COMPLEXITY_VALUES = COMPLEXITY_LEVELS.map((l) => l.value);
+const VALID_SCHEDULE_VALUES = FEED_SCHEDULES.map((s) => s.value);
+
+export async function GET() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const feeds = await db.query.feedSubscription.findMany({
+    where: eq(feedSubscription.userId, session.user.id),
+    columns: { lastSeenGuids: false },
+    orderBy: desc(feedSubscription.createdAt),
+  });
+
+  return NextResponse.json({ feeds });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (session.user.banned) {
+    return NextResponse.json({ error: "Your account has been suspended" }, { status: 403 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const { url, readingMinutes, complexity, language, schedule } = body;
+
+  // Validate inputs (the feed host is resolved and checked again when fetched)
+  if (typeof url !== "string" || !isAllowedUrl(url)) {
+    return NextResponse.json({ error: "Invalid feed URL" }, { status: 400 });
+  }
+
+  if (typeof readingMinutes !== "number" || readingMinutes < 1 || readingMinutes > 1000) {
+    return NextResponse.json({ error: "Invalid reading time" }, { status: 400 });
+  }
+
+  if (!VALID_COMPLEXITY_VALUES.includes(complexity)) {
+    return NextResponse.json({ error: "Invalid complexity level" }, { status: 400 });
+  }
+
+  if (!LANGUAGES.includes(language)) {
+    return NextResponse.json({ error: "Invalid language" }, { status: 400 });
+  }
+
+  if (!VALID_SCHEDULE_VALUES.includes(schedule)) {
+    return NextResponse.json({ error: "Invalid schedule" }, { status: 400 });
+  }
+
+  const [{ value: feedCount }] = await db
+    .select({ value: count() })
+    .from(feedSubscription)
+    .where(eq(feedSubscription.userId, session.user.id));
+
+  if (feedCount >= MAX_FEEDS_PER_USER) {
+    return NextResponse.json({ error: `Maximum ${MAX_FEEDS_PER_USER} feeds allowed` }, { status: 400 });
+  }
+
+  const existing = await db.query.feedSubscription.findFirst({
+    where: and(eq(feedSubscription.userId, session.user.id), eq(feedSubscription.url, url)),
+  });
+
+  if (existing) {
+    return NextResponse.json({ error: "You are already subscribed to this feed" }, { status: 409 });
+  }
+
+  // Read the feed now so a bad URL is reported right away. Its current entries
+  // count as seen: digests only cover entries published after subscribing.
+  let feed;
+  try {
+    feed = await fetchFeed(url);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Failed to read feed";
+    return NextResponse.json({ error: msg }, { status: 400 });
+  }
+
+  const now = new Date();
+  const [subscription] = await db
+    .insert(feedSubscription)
+    .values({
+      userId: session.user.id,
+      url,
+      title: feed.title?.slice(0, 500),
+      readingMinutes,
+      complexityLevel: complexity,
+      outputLanguage: language,
+      schedule,
+      lastSeenGuids: mergeSeenGuids(feed, [], feed.entries.map((e) => e.guid)),
+      lastRunAt: now,
+      nextRunAt: nextRunAfter(schedule, now),
+    })
+    .returning();
+
+  const { lastSeenGuids, ...feedFields } = subscription;
+  return NextResponse.json({ feed: feedFields, seenEntries: lastSeenGuids.length });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { summaryPreset } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const preset = await db.query.summaryPreset.findFirst({
+    where: and(eq(summaryPreset.id, id), eq(summaryPreset.userId, session.user.id)),
+  });
+
+  if (!preset) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await db.delete(summaryPreset).where(eq(summaryPreset.id, id));
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { summaryPreset } from "@/lib/db/schema";
+import { eq, and, ne } from "drizzle-orm";
+import { parsePreset, toSummaryPreset } from "@/lib/presets";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const fields = parsePreset(body ?? {});
+  if (typeof fields === "string") {
+    return NextResponse.json({ error: fields }, { status: 400 });
+  }
+
+  const preset = await db.query.summaryPreset.findFirst({
+    where: and(eq(summaryPreset.id, id), eq(summaryPreset.userId, session.user.id)),
+  });
+
+  if (!preset) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const duplicate = await db.query.summaryPreset.findFirst({
+    where: and(
+      eq(summaryPreset.userId, session.user.id),
+      eq(summaryPreset.name, fields.name),
+      ne(summaryPreset.id, id)
+    ),
+  });
+
+  if (duplicate) {
+    return NextResponse.json({ error: "A preset with this name already exists" }, { status: 409 });
+  }
+
+  // Making this preset the default clears the previous default
+  const updated = await db.transaction(async (tx) => {
+    if (fields.isDefault) {
+      await tx
+        .update(summaryPreset)
+        .set({ isDefault: false })
+        .where(and(eq(summaryPreset.userId, session.user.id), ne(summaryPreset.id, id)));
+    }
+    const [saved] = await tx
+      .update(summaryPreset)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(summaryPreset.id, id))
+      .returning();
+    return saved;
+  });
+
+  return NextResponse.json({ preset: toSummaryPreset(updated) });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { db } from "@/lib/db";
+import { summaryPreset } from "@/lib/db/schema";
+import { eq, and, asc, count } from "drizzle-orm";
+import { parsePreset, toSummaryPreset } from "@/lib/presets";
+import { MAX_PRESETS_PER_USER } from "@/lib/constants";
+
+export async function GET() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const presets = await db.query.summaryPreset.findMany({
+    where: eq(summaryPreset.userId, session.user.id),
+    orderBy: asc(summaryPreset.name),
+  });
+
+  return NextResponse.json({ presets: presets.map(toSummaryPreset) });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  const fields = parsePreset(body ?? {});
+  if (typeof fields === "string") {
+    return NextResponse.json({ error: fields }, { status: 400 });
+  }
+
+  const [{ value: presetCount }] = await db
+    .select({ value: count() })
+    .from(summaryPreset)
+    .where(eq(summaryPreset.userId, session.user.id));
+
+  if (presetCount >= MAX_PRESETS_PER_USER) {
+    return NextResponse.json({ error: `Maximum ${MAX_PRESETS_PER_USER} presets allowed` }, { status: 400 });
+  }
+
+  const existing = await db.query.summaryPreset.findFirst({
+    where: and(eq(summaryPreset.userId, session.user.id), eq(summaryPreset.name, fields.name)),
+  });
+
+  if (existing) {
+    return NextResponse.json({ error: "A preset with this name already exists" }, { status: 409 });
+  }
+
+  // A new default preset replaces the previous one
+  const preset = await db.transaction(async (tx) => {
+    if (fields.isDefault) {
+      await tx
+        .update(summaryPreset)
+        .set({ isDefault: false })
+        .where(and(eq(summaryPreset.userId, session.user.id), eq(summaryPreset.isDefault, true)));
+    }
+    const [created] = await tx
+      .insert(summaryPreset)
+      .values({ ...fields, userId: session.user.id })
+      .returning();
+    return created;
+  });
+
+  return NextResponse.json({ preset: toSummaryPreset(preset) });
+}
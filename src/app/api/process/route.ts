@@ -9,17 +9,43 @@ import {
   documentToProcessedResult,
 } from "@/lib/db/schema";
 import { eq, gte, and, count } from "drizzle-orm";
+import { expandArchive, isArchive } from "@/lib/archive";
+import { parseFocus } from "@/lib/focus";
+import { parseOutputFormats } from "@/lib/presets";
+import { isAllowedUrl } from "@/lib/safe-fetch";
+import { MAX_HEADING_LENGTH, MAX_SELECTED_HEADINGS, normalizePageRange, type DocumentSelection } from "@/lib/selection";
 import { USAGE_LIMIT_PER_DAY, COMPLEXITY_LEVELS, LANGUAGES, MAX_FILES } from "@/lib/constants";
 
 const VALID_COMPLEXITY_VALUES = COMPLEXITY_LEVELS.map((l) => l.value);
 
-function isValidUrl(str: string): boolean {
-  try {
-    const url = new URL(str);
-    return url.protocol === "https:" || url.protocol === "http:";
-  } catch {
-    return false;
+/**
+ * Validate an optional page range and heading selection for one source.
+ * Returns the normalized selection, or an error message.
+ */
+function parseSelection(pageRange: unknown, headings: unknown): DocumentSelection | string {
+  const selection: DocumentSelection = { pageRange: null, headings: null };
+
+  if (pageRange !== undefined && pageRange !== null && pageRange !== "") {
+    if (typeof pageRange !== "string") return "Invalid page range";
+    try {
+      selection.pageRange = normalizePageRange(pageRange);
+    } catch (err) {
+      return err instanceof Error ? err.message : "Invalid page range";
+    }
   }
+
+  if (headings !== undefined && headings !== null) {
+    if (
+      !Array.isArray(headings) ||
+      headings.length > MAX_SELECTED_HEADINGS ||
+      headings.some((h) => typeof h !== "string" || !h.trim() || h.length > MAX_HEADING_LENGTH)
+    ) {
+      return `Invalid section headings (up to ${MAX_SELECTED_HEADINGS}, ${MAX_HEADING_LENGTH} characters each)`;
+    }
+    if (headings.length > 0) selection.headings = headings.map((h: string) => h.trim());
+  }
+
+  return selection;
 }
 
 export async function POST(request: NextRequest) {
@@ -42,7 +68,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
   }
 
-  const { files, urls, readingMinutes, complexity, language } = body;
+  const { files, urls, readingMinutes, complexity, language, outputFormats, followPagination, crawl, focus, focusQuestions } = body;
 
   // Validate inputs
   if ((!Array.isArray(files) || files.length === 0) && (!Array.isArray(urls) || urls.length === 0)) {
@@ -65,11 +91,37 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid language" }, { status: 400 });
   }
 
-  // Validate URLs
-  for (const url of urls || []) {
-    if (typeof url !== "string" || !isValidUrl(url)) {
+  const formats = parseOutputFormats(outputFormats);
+  if (typeof formats === "string") {
+    return NextResponse.json({ error: formats }, { status: 400 });
+  }
+
+  const summaryFocus = parseFocus(focus, focusQuestions);
+  if (typeof summaryFocus === "string") {
+    return NextResponse.json({ error: summaryFocus }, { status: 400 });
+  }
+
+  if (followPagination !== undefined && typeof followPagination !== "boolean") {
+    return NextResponse.json({ error: "Invalid pagination setting" }, { status: 400 });
+  }
+
+  if (crawl !== undefined && typeof crawl !== "boolean") {
+    return NextResponse.json({ error: "Invalid crawl setting" }, { status: 400 });
+  }
+
+  // Validate URLs (hosts are resolved and checked again when fetched). Each is
+  // either a URL string or { url, headings } to only include some sections.
+  const urlSources: { url: string; selection: DocumentSelection }[] = [];
+  for (const entry of urls || []) {
+    const url = typeof entry === "object" && entry !== null ? entry.url : entry;
+    if (typeof url !== "string" || !isAllowedUrl(url)) {
       return NextResponse.json({ error: `Invalid URL: ${url}` }, { status: 400 });
     }
+    const selection = parseSelection(undefined, entry?.headings);
+    if (typeof selection === "string") {
+      return NextResponse.json({ error: `${url}: ${selection}` }, { status: 400 });
+    }
+    urlSources.push({ url, selection });
   }
 
   // Validate files
@@ -77,6 +129,55 @@ export async function POST(request: NextRequest) {
     if (!file.fileName || !file.blobUrl || typeof file.fileSize !== "number") {
       return NextResponse.json({ error: "Invalid file data" }, { status: 400 });
     }
+    if (file.contentHash !== undefined && (typeof file.contentHash !== "string" || !/^[0-9a-f]{64}$/.test(file.contentHash))) {
+      return NextResponse.json({ error: "Invalid file data" }, { status: 400 });
+    }
+    const selection = parseSelection(file.pageRange, file.headings);
+    if (typeof selection === "string") {
+      return NextResponse.json({ error: `${file.fileName}: ${selection}` }, { status: 400 });
+    }
+    file.selection = selection;
+  }
+
+  // Unpacking an archive uploads its entries, so check the usage limit first
+  // (it is checked again when the records are created)
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  const [{ value: usedToday }] = await db
+    .select({ value: count() })
+    .from(usageLog)
+    .where(and(eq(usageLog.userId, session.user.id), gte(usageLog.createdAt, startOfDay)));
+  if (usedToday >= USAGE_LIMIT_PER_DAY) {
+    return NextResponse.json(
+      { error: `Daily limit of ${USAGE_LIMIT_PER_DAY} summarized documents reached. Try again tomorrow.` },
+      { status: 429 }
+    );
+  }
+
+  // Unpack ZIP archives so each supported entry becomes a document of its own
+  const uploadedFiles: {
+    fileName: string;
+    blobUrl: string;
+    fileType?: string;
+    fileSize: number;
+    contentHash?: string;
+    selection?: DocumentSelection;
+  }[] = [];
+  for (const file of files || []) {
+    if (!isArchive(String(file.fileName), file.fileType)) {
+      uploadedFiles.push(file);
+      continue;
+    }
+    if (file.selection.pageRange || file.selection.headings) {
+      return NextResponse.json({ error: `${file.fileName}: Pages and sections cannot be selected in archives` }, { status: 400 });
+    }
+    try {
+      const entries = await expandArchive(file.blobUrl, session.user.id);
+      uploadedFiles.push(...(entries ?? [file]));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Failed to unpack archive";
+      return NextResponse.json({ error: `${file.fileName}: ${msg}` }, { status: 400 });
+    }
   }
 
   // Create all records in a transaction to prevent orphaned records and race conditions
@@ -98,9 +199,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Create document records for uploaded files
-    const documentIds: string[] = [];
+    const documentLinks: { id: string; selection?: DocumentSelection }[] = [];
 
-    for (const file of files || []) {
+    for (const file of uploadedFiles) {
       const [doc] = await tx
         .insert(document)
         .values({
@@ -109,14 +210,15 @@ export async function POST(request: NextRequest) {
           fileType: String(file.fileType || "application/octet-stream").slice(0, 100),
           fileSize: file.fileSize,
           blobUrl: file.blobUrl,
+          contentHash: file.contentHash,
           isUrl: false,
         })
         .returning();
-      documentIds.push(doc.id);
+      documentLinks.push({ id: doc.id, selection: file.selection });
     }
 
-    // Create document records for URLs
-    for (const url of urls || []) {
+    // Create document records for URLs (real type and size are recorded once fetched)
+    for (const { url, selection } of urlSources) {
       const [doc] = await tx
         .insert(document)
         .values({
@@ -127,9 +229,11 @@ export async function POST(request: NextRequest) {
           blobUrl: "",
           isUrl: true,
           sourceUrl: url,
+          followPagination: followPagination === true,
+          crawl: crawl === true,
         })
         .returning();
-      documentIds.push(doc.id);
+      documentLinks.push({ id: doc.id, selection });
     }
 
     // Create the processed result record
@@ -140,6 +244,8 @@ export async function POST(request: NextRequest) {
         readingMinutes,
         complexityLevel: complexity,
         outputLanguage: language,
+        outputFormats: formats,
+        ...summaryFocus,
         markdownContent: "",
         extractedImages: [],
         outputContent: "",
@@ -148,10 +254,12 @@ export async function POST(request: NextRequest) {
       .returning();
 
     // Link documents to the processed result via the join table
-    for (const docId of documentIds) {
+    for (const link of documentLinks) {
       await tx.insert(documentToProcessedResult).values({
-        A: docId,
+        A: link.id,
         B: result.id,
+        pageRange: link.selection?.pageRange,
+        headings: link.selection?.headings,
       });
     }
 
@@ -9,6 +9,8 @@ import {
 } from "@/lib/db/schema";
 import { eq, gte, and, count } from "drizzle-orm";
 import { USAGE_LIMIT_PER_DAY, COMPLEXITY_LEVELS, LANGUAGES } from "@/lib/constants";
+import { parseFocus } from "@/lib/focus";
+import { parseOutputFormats } from "@/lib/presets";
 
 const VALID_COMPLEXITY_VALUES = COMPLEXITY_LEVELS.map((l) => l.value);
 
@@ -32,7 +34,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
   }
 
-  const { originalResultId, readingMinutes, complexity, language } = body;
+  const { originalResultId, readingMinutes, complexity, language, outputFormats, focus, focusQuestions } = body;
 
   // Validate inputs
   if (typeof originalResultId !== "string" || !originalResultId) {
@@ -51,6 +53,16 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid language" }, { status: 400 });
   }
 
+  const formats = parseOutputFormats(outputFormats);
+  if (typeof formats === "string") {
+    return NextResponse.json({ error: formats }, { status: 400 });
+  }
+
+  const summaryFocus = parseFocus(focus, focusQuestions);
+  if (typeof summaryFocus === "string") {
+    return NextResponse.json({ error: summaryFocus }, { status: 400 });
+  }
+
   // Get original result with its documents
   const original = await db.query.processedResult.findFirst({
     where: and(eq(processedResult.id, originalResultId), eq(processedResult.userId, session.user.id)),
@@ -61,8 +73,6 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Original result not found" }, { status: 404 });
   }
 
-  const originalDocuments = original.documentToProcessedResults.map((r) => r.document);
-
   // Create new result + check usage + log in a single transaction to prevent race conditions
   let limitExceeded = false;
   const result = await db.transaction(async (tx) => {
@@ -86,6 +96,10 @@ export async function POST(request: NextRequest) {
         readingMinutes,
         complexityLevel: complexity,
         outputLanguage: language,
+        // Without output formats or focus fields in the request, keep the original's
+        outputFormats: outputFormats === undefined ? original.outputFormats : formats,
+        focus: focus === undefined ? original.focus : summaryFocus.focus,
+        focusQuestions: focusQuestions === undefined ? original.focusQuestions : summaryFocus.focusQuestions,
         markdownContent: original.markdownContent,
         extractedImages: original.extractedImages,
         outputContent: "",
@@ -93,11 +107,13 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
-    // Link documents to the new result via the join table
-    for (const doc of originalDocuments) {
+    // Link documents to the new result via the join table, keeping their page and section selections
+    for (const link of original.documentToProcessedResults) {
       await tx.insert(documentToProcessedResult).values({
-        A: doc.id,
+        A: link.A,
         B: newResult.id,
+        pageRange: link.pageRange,
+        headings: link.headings,
       });
     }
 
@@ -2,14 +2,135 @@ import { NextRequest } from "next/server";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { db } from "@/lib/db";
-import { document, processedResult } from "@/lib/db/schema";
+import { put } from "@vercel/blob";
+import { document, documentToProcessedResult, processedResult } from "@/lib/db/schema";
 import { eq, and, sql } from "drizzle-orm";
-import { runOcr } from "@/lib/ocr";
+import { extractDocument, extractFile, type ExtractedAttachment } from "@/lib/extractors";
+import { hashContent } from "@/lib/extraction-cache";
+import { MAX_ATTACHMENTS, MAX_ATTACHMENT_DEPTH, MAX_FILE_SIZE } from "@/lib/constants";
 import { scrapeUrl } from "@/lib/url-scraper";
-import { streamFormattedSummary, streamBreadtextSummary } from "@/lib/summarize";
+import { discoverPages } from "@/lib/crawler";
+import { describeSelection, parsePageRange, selectSections, type DocumentSelection } from "@/lib/selection";
+import { condenseSource, fitWordBudget, streamFormattedSummary, streamBreadtextSummary } from "@/lib/summarize";
+import { countReadableWords, readingMinutesFor } from "@/lib/word-count";
+import { getSummarizer } from "@/lib/summarizers";
 
 export const maxDuration = 600;
 
+interface AttachmentContext {
+  resultId: string;
+  userId: string;
+  /** `fileName:fileSize` of documents already linked to the result (e.g. on retry). */
+  linkedFiles: Set<string>;
+  send: (data: object) => void;
+}
+
+/**
+ * Store files attached to a document (e.g. email attachments) as documents of
+ * their own, linked to the same result, and extract them. Attachments of
+ * attachments are handled recursively up to MAX_ATTACHMENT_DEPTH.
+ */
+async function extractAttachments(
+  attachments: ExtractedAttachment[],
+  ctx: AttachmentContext,
+  depth = 1
+): Promise<{ markdown: string; images: string[] }> {
+  let markdown = "";
+  const images: string[] = [];
+
+  if (attachments.length > MAX_ATTACHMENTS) {
+    ctx.send({ type: "error", message: `Only the first ${MAX_ATTACHMENTS} of ${attachments.length} attachments were processed` });
+  }
+
+  for (const att of attachments.slice(0, MAX_ATTACHMENTS)) {
+    // Already stored by an earlier attempt; extracted with the other documents
+    if (ctx.linkedFiles.has(`${att.fileName}:${att.data.length}`)) continue;
+    if (att.data.length > MAX_FILE_SIZE) {
+      ctx.send({ type: "error", message: `Skipped attachment ${att.fileName}: exceeds 50MB limit` });
+      continue;
+    }
+
+    try {
+      const blob = await put(`documents/${ctx.userId}/${crypto.randomUUID()}-${att.fileName}`, att.data, {
+        access: "public",
+        contentType: att.contentType,
+      });
+      const [doc] = await db
+        .insert(document)
+        .values({
+          userId: ctx.userId,
+          fileName: att.fileName,
+          fileType: att.contentType,
+          fileSize: att.data.length,
+          blobUrl: blob.url,
+          contentHash: hashContent(att.data),
+          isUrl: false,
+        })
+        .returning();
+      await db.insert(documentToProcessedResult).values({ A: doc.id, B: ctx.resultId });
+      ctx.linkedFiles.add(`${att.fileName}:${att.data.length}`);
+
+      const extracted = await extractFile(att.data, att.contentType, att.fileName, blob.url, ctx.userId, {
+        onProgress: ({ page, totalPages }) => ctx.send({ type: "progress", stage: "ocr", doc: doc.id, page, totalPages }),
+      });
+      if (extracted.cached) {
+        ctx.send({ type: "status", message: `Using cached extraction for ${att.fileName}` });
+      }
+      markdown += `\n\n--- ${att.fileName} ---\n\n${extracted.markdown}`;
+      images.push(...extracted.images);
+
+      if (extracted.attachments?.length && depth < MAX_ATTACHMENT_DEPTH) {
+        const nested = await extractAttachments(extracted.attachments, ctx, depth + 1);
+        markdown += nested.markdown;
+        images.push(...nested.images);
+      }
+    } catch (err) {
+      ctx.send({ type: "error", message: `Extraction failed for attachment ${att.fileName}: ${err instanceof Error ? err.message : "Unknown error"}` });
+    }
+  }
+
+  return { markdown, images };
+}
+
+/**
+ * Narrow a document's extracted content to its selected sections, and prefix
+ * it with the separator line recording which pages and sections were included.
+ */
+function applySelection(
+  fileName: string,
+  content: { markdown: string; images: string[]; pagesIncluded?: string },
+  selection: DocumentSelection | undefined,
+  send: (data: object) => void
+): { markdown: string; images: string[] } {
+  let { markdown, images } = content;
+  let headings: string[] | null = null;
+
+  if (selection?.pageRange && !content.pagesIncluded) {
+    send({ type: "error", message: `Pages ${selection.pageRange} could not be selected in ${fileName}; the whole document was included` });
+  }
+
+  if (selection?.headings?.length) {
+    const sections = selectSections(markdown, selection.headings);
+    if (sections.matched.length === 0) {
+      send({ type: "error", message: `None of the selected sections were found in ${fileName}; the whole document was included` });
+    } else {
+      const missing = selection.headings.filter((h) => !sections.matched.includes(h));
+      if (missing.length > 0) {
+        send({ type: "error", message: `Sections not found in ${fileName}: ${missing.join("; ")}` });
+      }
+      markdown = sections.markdown;
+      images = images.filter((img) => markdown.includes(img));
+      headings = sections.matched;
+    }
+  }
+
+  const description = describeSelection({ pagesIncluded: content.pagesIncluded, headings });
+  return {
+    markdown: `\n\n--- ${fileName}${description ? ` (${description})` : ""} ---\n\n${markdown}`,
+    images,
+  };
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -34,6 +155,9 @@ export async function GET(
   }
 
   const documents = result.documentToProcessedResults.map((r) => r.document);
+  const selections = new Map<string, DocumentSelection>(
+    result.documentToProcessedResults.map((r) => [r.A, { pageRange: r.pageRange, headings: r.headings }])
+  );
 
   // If already processed, return the stored content
   if (result.outputContent) {
@@ -141,22 +265,86 @@ export async function GET(
         if (!combinedMarkdown) {
           // Step 1: Scrape URLs (extract text directly, no OCR needed)
           const urlDocs = documents.filter((d) => d.isUrl);
-          const scrapedMarkdowns = new Map<string, string>();
+          const scraped = new Map<string, { markdown: string; images: string[] }>();
           if (urlDocs.length > 0) {
             send({ type: "status", message: "Fetching web pages..." });
             for (const doc of urlDocs) {
               if (abortSignal.aborted) return;
-              if (doc.sourceUrl) {
+              if (!doc.sourceUrl) continue;
+
+              // Crawl mode: the URL is the root of a site section, and every other
+              // page found becomes a document of its own linked to this result
+              let pageUrls = [doc.sourceUrl];
+              if (doc.crawl) {
+                send({ type: "status", message: `Crawling ${doc.sourceUrl}...` });
+                // Pages stored by an earlier attempt are already being scraped on their own
+                const known = new Set(documents.map((d) => d.sourceUrl));
+                try {
+                  const found = await discoverPages(doc.sourceUrl, {
+                    onProgress: ({ found }) => send({ type: "status", message: `Crawling ${doc.sourceUrl}: found ${found} pages...` }),
+                  });
+                  pageUrls = [doc.sourceUrl, ...found.slice(1).filter((url) => !known.has(url))];
+                } catch (err) {
+                  send({ type: "error", message: `Crawling ${doc.sourceUrl} failed: ${err instanceof Error ? err.message : "Unknown error"}` });
+                }
+              }
+
+              for (const [index, pageUrl] of pageUrls.entries()) {
+                if (abortSignal.aborted) return;
+                if (doc.crawl) {
+                  send({ type: "status", message: `Fetching page ${index + 1} of ${pageUrls.length}: ${pageUrl}` });
+                  send({ type: "progress", stage: "crawl", doc: doc.id, page: index + 1, totalPages: pageUrls.length, url: pageUrl });
+                }
+
                 try {
-                  const scraped = await scrapeUrl(doc.sourceUrl, session.user.id);
-                  await db
-                    .update(document)
-                    .set({ blobUrl: scraped.blobUrl, fileName: scraped.fileName })
-                    .where(eq(document.id, doc.id));
-                  doc.blobUrl = scraped.blobUrl;
-                  scrapedMarkdowns.set(doc.id, scraped.markdown);
+                  const page = await scrapeUrl(pageUrl, session.user.id, {
+                    followPagination: doc.followPagination,
+                  });
+                  if (page.cached) {
+                    send({ type: "status", message: `Using cached extraction for ${pageUrl}` });
+                  }
+                  if (page.pagination && page.pagination.pages > 1) {
+                    send({ type: "status", message: `Joined ${page.pagination.pages} pages of ${pageUrl}` });
+                  }
+                  if (page.pagination?.error) {
+                    send({ type: "status", message: `Not all pages of ${pageUrl} could be fetched. ${page.pagination.error}` });
+                  }
+                  const scrapedFields = {
+                    blobUrl: page.blobUrl,
+                    fileType: page.fileType.slice(0, 100),
+                    fileSize: page.fileSize,
+                    contentHash: page.contentHash,
+                    title: page.title?.slice(0, 500),
+                    byline: page.byline?.slice(0, 500),
+                    publishedAt: page.publishedAt,
+                    scrapeBackend: page.scrapeBackend,
+                    scrapeAttempts: page.scrapeAttempts,
+                  };
+
+                  let pageDoc = doc;
+                  if (index === 0) {
+                    await db
+                      .update(document)
+                      .set({ ...scrapedFields, fileName: page.fileName })
+                      .where(eq(document.id, doc.id));
+                    doc.blobUrl = page.blobUrl;
+                  } else {
+                    [pageDoc] = await db
+                      .insert(document)
+                      .values({
+                        ...scrapedFields,
+                        userId: session.user.id,
+                        fileName: pageUrl.slice(0, 500),
+                        isUrl: true,
+                        sourceUrl: pageUrl,
+                      })
+                      .returning();
+                    await db.insert(documentToProcessedResult).values({ A: pageDoc.id, B: result.id });
+                    documents.push(pageDoc);
+                  }
+                  scraped.set(pageDoc.id, { markdown: page.markdown, images: page.images });
                 } catch (err) {
-                  send({ type: "error", message: `Failed to fetch ${doc.sourceUrl}: ${err instanceof Error ? err.message : "Unknown error"}` });
+                  send({ type: "error", message: `Failed to fetch ${pageUrl}: ${err instanceof Error ? err.message : "Unknown error"}` });
                 }
               }
             }
@@ -168,27 +356,49 @@ export async function GET(
           send({ type: "status", message: "Extracting text and images..." });
           combinedMarkdown = "";
           allImages = [];
+          const attachmentContext: AttachmentContext = {
+            resultId: result.id,
+            userId: session.user.id,
+            linkedFiles: new Set(documents.map((d) => `${d.fileName}:${d.fileSize}`)),
+            send,
+          };
 
           for (const doc of documents) {
             if (abortSignal.aborted) return;
 
-            // URL documents: use already-scraped markdown (no OCR)
+            // URL documents: use already-scraped markdown
             if (doc.isUrl) {
-              const md = scrapedMarkdowns.get(doc.id);
-              if (md) {
-                combinedMarkdown += `\n\n--- ${doc.fileName} ---\n\n${md}`;
+              const page = scraped.get(doc.id);
+              if (page?.markdown) {
+                const selected = applySelection(doc.fileName, page, selections.get(doc.id), send);
+                combinedMarkdown += selected.markdown;
+                allImages.push(...selected.images);
               }
               continue;
             }
 
-            // File documents: run OCR
+            // File documents: parse locally where possible, otherwise run OCR
             if (!doc.blobUrl) continue;
+            const selection = selections.get(doc.id);
             try {
-              const ocrResult = await runOcr(doc.blobUrl, session.user.id);
-              combinedMarkdown += `\n\n--- ${doc.fileName} ---\n\n${ocrResult.markdown}`;
-              allImages.push(...ocrResult.images);
+              const extracted = await extractDocument(doc, session.user.id, {
+                onProgress: ({ page, totalPages }) => send({ type: "progress", stage: "ocr", doc: doc.id, page, totalPages }),
+                pageRanges: selection?.pageRange ? parsePageRange(selection.pageRange) : undefined,
+              });
+              if (extracted.cached) {
+                send({ type: "status", message: `Using cached extraction for ${doc.fileName}` });
+              }
+              const selected = applySelection(doc.fileName, extracted, selection, send);
+              combinedMarkdown += selected.markdown;
+              allImages.push(...selected.images);
+
+              if (extracted.attachments?.length) {
+                const attached = await extractAttachments(extracted.attachments, attachmentContext);
+                combinedMarkdown += attached.markdown;
+                allImages.push(...attached.images);
+              }
             } catch (err) {
-              send({ type: "error", message: `OCR failed for ${doc.fileName}: ${err instanceof Error ? err.message : "Unknown error"}` });
+              send({ type: "error", message: `Extraction failed for ${doc.fileName}: ${err instanceof Error ? err.message : "Unknown error"}` });
             }
           }
 
@@ -220,16 +430,34 @@ export async function GET(
 
         if (abortSignal.aborted) return;
 
-        // Step 3: Summarize with Claude — stream formatted and breadtext in parallel
+        // Step 3: Summarize — stream formatted and breadtext in parallel
         send({ type: "status", message: "Summarizing and restructuring..." });
 
-        const summarizeParams = {
-          markdown: combinedMarkdown,
-          images: allImages,
-          readingMinutes: result.readingMinutes,
-          complexity: result.complexityLevel,
-          language: result.outputLanguage,
-        };
+        const summarizer = getSummarizer();
+        // Sources too long for one request are first summarized in parts
+        const summarizeParams = await condenseSource(
+          {
+            markdown: combinedMarkdown,
+            images: allImages,
+            readingMinutes: result.readingMinutes,
+            complexity: result.complexityLevel,
+            language: result.outputLanguage,
+            focus: result.focus,
+            focusQuestions: result.focusQuestions,
+          },
+          summarizer,
+          {
+            onProgress: ({ part, totalParts }) => {
+              send({ type: "status", message: `Summarized part ${part} of ${totalParts}...` });
+              send({ type: "progress", stage: "summarize", doc: "summary", name: "All documents", page: part, totalPages: totalParts });
+            },
+            signal: abortSignal,
+          }
+        );
+        if (abortSignal.aborted) return;
+        if (summarizeParams.mergedParts) {
+          send({ type: "status", message: `Merging ${summarizeParams.mergedParts} partial summaries...` });
+        }
 
         // Parallel streaming with a shared push queue
         const pending: Array<object> = [];
@@ -246,7 +474,7 @@ export async function GET(
         // Start both streams concurrently
         const p1 = (async () => {
           try {
-            for await (const chunk of streamFormattedSummary(summarizeParams)) {
+            for await (const chunk of streamFormattedSummary(summarizeParams, summarizer)) {
               if (abortSignal.aborted) return;
               formattedContent += chunk;
               push({ type: "formatted_chunk", text: chunk });
@@ -259,12 +487,16 @@ export async function GET(
           q.notify?.();
         })();
 
+        // The speed-reading version is only written when the job asked for it
+        const wantsBreadtext = result.outputFormats.includes("breadtext");
         const p2 = (async () => {
           try {
-            for await (const chunk of streamBreadtextSummary(summarizeParams)) {
-              if (abortSignal.aborted) return;
-              breadtext += chunk;
-              push({ type: "breadtext_chunk", text: chunk });
+            if (wantsBreadtext) {
+              for await (const chunk of streamBreadtextSummary(summarizeParams, summarizer)) {
+                if (abortSignal.aborted) return;
+                breadtext += chunk;
+                push({ type: "breadtext_chunk", text: chunk });
+              }
             }
           } catch {
             // Breadtext failure is non-critical; formatted is the primary output
@@ -307,7 +539,7 @@ export async function GET(
           return;
         }
 
-        // If Claude returned the "empty document" canned response, don't cache it
+        // If the model returned the "empty document" canned response, don't cache it
         const isEmptyResponse = formattedContent.includes("appears to be empty or could not be read");
         if (isEmptyResponse) {
           await db
@@ -327,6 +559,35 @@ export async function GET(
           breadtext = "";
         }
 
+        // Enforce the reading-time budget: outputs well over it get a condense pass
+        const [fittedFormatted, fittedBreadtext] = await Promise.all([
+          fitWordBudget(formattedContent, "formatted", summarizeParams, summarizer, {
+            onCondense: (words, targetWords) =>
+              send({ type: "status", message: `Condensing the summary from ${words} to ${targetWords} words...` }),
+          }).catch((err) => {
+            send({
+              type: "error",
+              message: `Condensing the summary failed: ${err instanceof Error ? err.message : "Unknown error"}. The full summary is kept.`,
+            });
+            return null;
+          }),
+          breadtext
+            ? fitWordBudget(breadtext, "breadtext", summarizeParams, summarizer).catch(() => null)
+            : null,
+        ]);
+        if (abortSignal.aborted) return;
+        if (fittedFormatted?.condensed) {
+          formattedContent = fittedFormatted.text;
+          send({ type: "content", text: formattedContent });
+        }
+        if (fittedBreadtext?.condensed) {
+          breadtext = fittedBreadtext.text;
+          send({ type: "breadtext", text: breadtext });
+        }
+        const wordCount = fittedFormatted?.words ?? countReadableWords(formattedContent);
+        const readingMinutes = readingMinutesFor(wordCount);
+        send({ type: "stats", wordCount, readingMinutes });
+
         // Find which images were referenced in either output
         const usedImages = allImages.filter((img) => formattedContent.includes(img) || breadtext.includes(img));
 
@@ -337,6 +598,10 @@ export async function GET(
             outputContent: formattedContent,
             outputBreadtext: breadtext,
             outputImages: usedImages,
+            outputWordCount: wordCount,
+            outputReadingMinutes: readingMinutes,
+            summarizerProvider: summarizer.provider.name,
+            summarizerModel: summarizer.model,
           })
           .where(eq(processedResult.id, result.id));
 
@@ -3,6 +3,7 @@ import { put } from "@vercel/blob";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
 import { MAX_FILE_SIZE } from "@/lib/constants";
+import { hashContent } from "@/lib/extraction-cache";
 
 // Magic byte signatures for allowed file types
 const MAGIC_SIGNATURES: { bytes: number[]; offset?: number; mime: string }[] = [
@@ -68,5 +69,8 @@ export async function POST(request: NextRequest) {
     access: "public",
   });
 
-  return NextResponse.json({ url: blob.url });
+  // Identifies identical uploads, whose extraction can be reused
+  const contentHash = hashContent(Buffer.from(await file.arrayBuffer()));
+
+  return NextResponse.json({ url: blob.url, contentHash });
 }
@@ -26,6 +26,7 @@ export default function Navbar() {
   const navItems = [
     { href: "/dashboard", label: "New" },
     { href: "/history", label: "History" },
+    { href: "/feeds", label: "Feeds" },
   ];
 
   return (
@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import { useToast } from "@/components/toast";
+import ConfirmDialog from "@/components/confirm-dialog";
+import { MAX_PRESET_NAME_LENGTH } from "@/lib/constants";
+import { presetRequestBody, type PresetFields, type SummaryPreset } from "@/lib/presets";
+
+interface PresetPickerProps {
+  presets: SummaryPreset[];
+  onApply: (preset: SummaryPreset) => void;
+  /** Current settings, for saving as a new preset. Without them presets can only be applied. */
+  current?: Omit<PresetFields, "name" | "isDefault">;
+  onPresetsChange?: (presets: SummaryPreset[]) => void;
+}
+
+/**
+ * One-click presets of output settings. With `current` and `onPresetsChange`,
+ * the current settings can be saved as a preset, and presets can be made the
+ * default or deleted.
+ */
+export default function PresetPicker({ presets, onApply, current, onPresetsChange }: PresetPickerProps) {
+  const { toast } = useToast();
+  const [managing, setManaging] = useState(false);
+  const [name, setName] = useState("");
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<SummaryPreset | null>(null);
+  const canManage = !!current && !!onPresetsChange;
+
+  if (presets.length === 0 && !canManage) return null;
+
+  async function savePreset(url: string, method: string, fields: PresetFields): Promise<SummaryPreset | null> {
+    const res = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(presetRequestBody(fields)),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      toast(data.error || "Failed to save preset", "error");
+      return null;
+    }
+    return data.preset;
+  }
+
+  async function handleSave() {
+    if (!current || !onPresetsChange || !name.trim()) return;
+    setSaving(true);
+    try {
+      const preset = await savePreset("/api/presets", "POST", { ...current, name: name.trim(), isDefault: makeDefault });
+      if (!preset) return;
+      const others = preset.isDefault ? presets.map((p) => ({ ...p, isDefault: false })) : presets;
+      onPresetsChange([...others, preset].sort((a, b) => a.name.localeCompare(b.name)));
+      setName("");
+      setMakeDefault(false);
+      toast("Preset saved", "success");
+    } catch {
+      toast("Failed to save preset", "error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleMakeDefault(preset: SummaryPreset) {
+    if (!onPresetsChange) return;
+    try {
+      const saved = await savePreset(`/api/presets/${preset.id}/update`, "PUT", { ...preset, isDefault: true });
+      if (!saved) return;
+      onPresetsChange(presets.map((p) => (p.id === saved.id ? saved : { ...p, isDefault: false })));
+      toast(`"${saved.name}" is now your default`, "success");
+    } catch {
+      toast("Failed to save preset", "error");
+    }
+  }
+
+  async function handleDelete(preset: SummaryPreset) {
+    setConfirmDelete(null);
+    if (!onPresetsChange) return;
+    try {
+      const res = await fetch(`/api/presets/${preset.id}/delete`, { method: "DELETE" });
+      if (!res.ok) {
+        toast("Failed to delete preset", "error");
+        return;
+      }
+      onPresetsChange(presets.filter((p) => p.id !== preset.id));
+      toast("Preset deleted", "success");
+    } catch {
+      toast("Failed to delete preset", "error");
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-gray-500">Presets</span>
+        {presets.length === 0 && <span className="text-xs text-gray-400">None saved yet</span>}
+        {presets.map((preset) => (
+          <span key={preset.id} className="inline-flex items-center">
+            <button
+              type="button"
+              onClick={() => onApply(preset)}
+              title={`${preset.readingMinutes} min · ${preset.complexityLevel} · ${preset.outputLanguage}`}
+              className="px-3 py-1 bg-gray-100 hover:bg-brand-50 hover:text-brand-700 rounded-full text-xs text-gray-700 transition-colors cursor-pointer"
+            >
+              {preset.name}
+              {preset.isDefault && <span className="ml-1 text-gray-400">(default)</span>}
+            </button>
+            {managing && (
+              <>
+                {!preset.isDefault && (
+                  <button
+                    type="button"
+                    onClick={() => handleMakeDefault(preset)}
+                    className="ml-1 text-xs text-gray-400 hover:text-brand-600 transition-colors cursor-pointer"
+                  >
+                    Make default
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setConfirmDelete(preset)}
+                  aria-label={`Delete preset ${preset.name}`}
+                  className="ml-1 text-xs text-gray-400 hover:text-red-600 transition-colors cursor-pointer"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </span>
+        ))}
+        {canManage && (
+          <button
+            type="button"
+            onClick={() => setManaging((m) => !m)}
+            className="text-xs font-medium text-brand-600 hover:text-brand-700 transition-colors cursor-pointer"
+          >
+            {managing ? "Done" : "Manage"}
+          </button>
+        )}
+      </div>
+
+      {/* Not a form: the picker sits inside the dashboard's form */}
+      {managing && canManage && (
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleSave();
+              }
+            }}
+            maxLength={MAX_PRESET_NAME_LENGTH}
+            placeholder="Name for the current settings"
+            aria-label="Preset name"
+            className="flex-1 min-w-48 px-3.5 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent text-sm transition-shadow"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={makeDefault}
+              onChange={(e) => setMakeDefault(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500 cursor-pointer shrink-0"
+            />
+            Default
+          </label>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors shadow-sm cursor-pointer"
+          >
+            {saving ? "Saving..." : "Save Preset"}
+          </button>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!confirmDelete}
+        title="Delete preset"
+        message={`Delete the preset "${confirmDelete?.name ?? ""}"? Results already created keep their settings.`}
+        confirmLabel="Delete"
+        destructive
+        onConfirm={() => confirmDelete && handleDelete(confirmDelete)}
+        onCancel={() => setConfirmDelete(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { put } from "@vercel/blob";
+import { unzipSync } from "fflate";
+import {
+  DOCUMENT_EXTENSIONS,
+  MAX_ARCHIVE_ENTRIES,
+  MAX_ARCHIVE_FILES,
+  MAX_ARCHIVE_UNCOMPRESSED_SIZE,
+  MAX_FILE_SIZE,
+} from "./constants";
+import { hashContent } from "./extraction-cache";
+import { fetchFile } from "./extractors";
+import { checkZipLimits } from "./extractors/ooxml";
+import { imageTypeFromPath } from "./images";
+
+const ARCHIVE_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+// Markers of ZIP-based document formats (Office, EPUB) that must not be unpacked
+const PACKAGE_MARKERS = ["[Content_Types].xml", "META-INF/container.xml"];
+
+const DOCUMENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  epub: "application/epub+zip",
+  eml: "message/rfc822",
+  msg: "application/vnd.ms-outlook",
+  txt: "text/plain",
+  md: "text/markdown",
+  rtf: "application/rtf",
+  csv: "text/csv",
+  html: "text/html",
+  htm: "text/html",
+};
+
+export interface ArchiveFile {
+  fileName: string;
+  blobUrl: string;
+  fileType: string;
+  fileSize: number;
+  contentHash: string;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function extensionOf(path: string): string {
+  return path.split(".").pop()?.toLowerCase() ?? "";
+}
+
+function isSupportedEntry(path: string): boolean {
+  const parts = path.split("/");
+  const name = parts[parts.length - 1];
+  // Skip directories, macOS resource forks and hidden files
+  if (!name || name.startsWith(".") || parts.includes("__MACOSX")) return false;
+  return (DOCUMENT_EXTENSIONS as readonly string[]).includes(`.${extensionOf(name)}`);
+}
+
+/**
+ * Whether an uploaded file is a plain ZIP archive that should be unpacked
+ * into separate documents.
+ */
+export function isArchive(fileName: string, fileType?: string): boolean {
+  return extensionOf(fileName) === "zip" || ARCHIVE_TYPES.some((t) => fileType?.includes(t));
+}
+
+/**
+ * Unpack a ZIP archive from blob storage and upload each supported entry as a
+ * file of its own. Entry count and total uncompressed size are checked against
+ * the sizes declared in the archive before anything is inflated; the inflater
+ * never writes past a declared size, so a lying header cannot bypass the limits.
+ * Returns null when the file is actually an Office or EPUB package, after
+ * checking it against the package limits it is read with later.
+ */
+export async function expandArchive(blobUrl: string, userId: string): Promise<ArchiveFile[] | null> {
+  const maxFiles = limitFromEnv("ARCHIVE_MAX_FILES", MAX_ARCHIVE_FILES);
+  const maxEntries = limitFromEnv("ARCHIVE_MAX_ENTRIES", MAX_ARCHIVE_ENTRIES);
+  const maxTotalSize = limitFromEnv("ARCHIVE_MAX_UNCOMPRESSED_MB", MAX_ARCHIVE_UNCOMPRESSED_SIZE / (1024 * 1024)) * 1024 * 1024;
+
+  const { buffer } = await fetchFile(blobUrl);
+  if (buffer.length < 4 || buffer.readUInt32BE(0) !== 0x504b0304) {
+    throw new Error("Not a valid ZIP archive");
+  }
+
+  let entryCount = 0;
+  let fileCount = 0;
+  let totalSize = 0;
+  let isPackage = false;
+  let limitError: string | null = null;
+  const exceed = (message: string): never => {
+    limitError = message;
+    throw new Error(message);
+  };
+
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(buffer), {
+      filter: (entry) => {
+        if (++entryCount > maxEntries) {
+          exceed(`Archive has more than ${maxEntries} entries`);
+        }
+        if (PACKAGE_MARKERS.includes(entry.name)) isPackage = true;
+        if (isPackage || !isSupportedEntry(entry.name) || entry.originalSize > MAX_FILE_SIZE) return false;
+
+        if (++fileCount > maxFiles) {
+          exceed(`Archive has more than ${maxFiles} supported files`);
+        }
+        totalSize += entry.originalSize;
+        if (totalSize > maxTotalSize) {
+          exceed(`Archive expands to more than ${Math.round(maxTotalSize / (1024 * 1024))}MB`);
+        }
+        return true;
+      },
+    });
+  } catch {
+    throw new Error(limitError ?? "Could not read ZIP archive");
+  }
+
+  if (isPackage) {
+    checkZipLimits(buffer);
+    return null;
+  }
+
+  const files: ArchiveFile[] = [];
+  for (const [path, data] of Object.entries(entries)) {
+    if (data.length === 0) continue;
+    const ext = extensionOf(path);
+    const fileType = DOCUMENT_TYPES[ext] ?? imageTypeFromPath(path) ?? "application/octet-stream";
+    const baseName = path.split("/").pop()!;
+
+    const blob = await put(`documents/${userId}/${crypto.randomUUID()}-${baseName}`, Buffer.from(data), {
+      access: "public",
+      contentType: fileType,
+    });
+    files.push({ fileName: path, blobUrl: blob.url, fileType, fileSize: data.length, contentHash: hashContent(data) });
+  }
+
+  if (files.length === 0) {
+    throw new Error("Archive contains no supported files");
+  }
+  return files;
+}
@@ -0,0 +1,109 @@
+// Lines a document is split at: document separators, headings up to level 3,
+// thematic breaks, page markers written by joinPages (`<!-- page 3 -->`) and
+// form feeds (page breaks in some extracted text)
+const SECTION_START = /^(?:--- .+ ---|#{1,3}\s.*|(?:-{3,}|\*{3,}|_{3,})\s*|<!-- page \d+ -->|\f.*)$/;
+const DOCUMENT_SEPARATOR = /^--- (.+) ---$/;
+
+export interface Chunk {
+  markdown: string;
+  words: number;
+}
+
+/**
+ * Join the text of a document's pages (0-based `index`), putting a page marker
+ * before each page when there is more than one, so long documents without
+ * headings are still split at page boundaries. Blank pages are left out.
+ */
+export function joinPages(pages: { index: number; markdown: string }[]): string {
+  const withText = pages.filter((page) => page.markdown.trim());
+  if (withText.length <= 1) return withText.map((page) => page.markdown).join("");
+  return withText.map((page) => `<!-- page ${page.index + 1} -->\n\n${page.markdown}`).join("\n\n");
+}
+
+/** Number of whitespace-separated words in a text. */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** Split text into sections that each start at a heading or separator line. */
+function splitSections(markdown: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+    if (!inCodeBlock && SECTION_START.test(line) && current.some((l) => l.trim())) {
+      sections.push(current.join("\n"));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.some((l) => l.trim())) sections.push(current.join("\n"));
+  return sections;
+}
+
+/** Split a section longer than `maxWords` at paragraphs, or at words as a last resort. */
+function splitLongSection(section: string, maxWords: number): string[] {
+  const pieces: string[] = [];
+  for (const paragraph of section.split(/\n\s*\n/)) {
+    if (countWords(paragraph) <= maxWords) {
+      pieces.push(paragraph);
+      continue;
+    }
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    for (let i = 0; i < words.length; i += maxWords) {
+      pieces.push(words.slice(i, i + maxWords).join(" "));
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Split markdown into chunks of at most `maxWords` words, breaking at document
+ * separators, headings and page breaks, and packing consecutive sections into
+ * the same chunk while they fit. A chunk that starts partway through a
+ * document repeats that document's separator line, so every chunk says where
+ * it comes from.
+ */
+export function splitIntoChunks(markdown: string, maxWords: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  let parts: string[] = [];
+  let words = 0;
+  let separator: string | null = null;
+  let pendingSeparator: string | null = null;
+
+  const flush = () => {
+    if (parts.length > 0) chunks.push({ markdown: parts.join("\n\n").trim(), words });
+    parts = [];
+    words = 0;
+  };
+
+  for (const section of splitSections(markdown)) {
+    const firstLine = section.trimStart().split("\n")[0];
+    if (DOCUMENT_SEPARATOR.test(firstLine)) separator = firstLine;
+
+    const pieces = countWords(section) > maxWords ? splitLongSection(section, maxWords) : [section];
+
+    for (const piece of pieces) {
+      // A separator split off a long section goes with the content that follows it
+      if (DOCUMENT_SEPARATOR.test(piece.trim())) {
+        pendingSeparator = piece.trim();
+        continue;
+      }
+      const pieceWords = countWords(piece);
+      if (words + pieceWords > maxWords) flush();
+      if (pendingSeparator) {
+        parts.push(pendingSeparator);
+        pendingSeparator = null;
+      } else if (parts.length === 0 && separator && !piece.trimStart().startsWith(separator)) {
+        parts.push(separator.replace(/ ---$/, " (continued) ---"));
+      }
+      parts.push(piece);
+      words += pieceWords;
+    }
+  }
+
+  flush();
+  return chunks;
+}
@@ -41,7 +41,58 @@ export const LANGUAGES = [
   "Persian",
 ] as const;
 
+export const OCR_PROVIDERS = ["mistral", "tesseract"] as const;
+export type OcrProviderName = (typeof OCR_PROVIDERS)[number];
+
+export const SCRAPER_BACKENDS = ["renderer", "jina", "direct"] as const;
+export type ScraperBackendName = (typeof SCRAPER_BACKENDS)[number];
+
+export const SUMMARIZER_PROVIDERS = ["anthropic", "openai", "fake"] as const;
+export type SummarizerProviderName = (typeof SUMMARIZER_PROVIDERS)[number];
+
+export const DOCUMENT_EXTENSIONS = [
+  ".pdf", ".doc", ".docx", ".ppt", ".pptx", ".xls", ".xlsx", ".epub", ".eml", ".msg",
+  ".txt", ".md", ".rtf", ".csv", ".png", ".jpg", ".jpeg", ".gif", ".bmp", ".tiff",
+  ".webp", ".svg", ".html", ".htm",
+] as const;
+
 export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 export const MAX_FILES = 10;
+// Pages fetched per URL when following pagination, including the first
+export const MAX_PAGINATION_PAGES = 10;
+// Site crawls: pages per crawled URL, and path levels or link hops below the root
+export const MAX_CRAWL_PAGES = 25;
+export const MAX_CRAWL_DEPTH = 3;
+// ZIP archives count as one item; these defaults can be overridden with ARCHIVE_* env vars
+export const MAX_ARCHIVE_FILES = 50;
+export const MAX_ARCHIVE_ENTRIES = 1000;
+export const MAX_ARCHIVE_UNCOMPRESSED_SIZE = 500 * 1024 * 1024; // 500MB
+// Office and EPUB packages are inflated in memory to be read
+export const MAX_PACKAGE_ENTRIES = 5000;
+export const MAX_PACKAGE_ENTRY_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_PACKAGE_UNCOMPRESSED_SIZE = 250 * 1024 * 1024; // 250MB
+// Files attached to an uploaded email, extracted as documents of their own
+export const MAX_ATTACHMENTS = 20;
+export const MAX_ATTACHMENT_DEPTH = 3;
+
+// Feed subscriptions: how often new entries are collected into a digest
+export const FEED_SCHEDULES = [
+  { value: "daily", label: "Daily", hours: 24 },
+  { value: "weekly", label: "Weekly", hours: 24 * 7 },
+] as const;
+export const MAX_FEEDS_PER_USER = 20;
+// Entries summarized per digest; older unseen entries wait for later runs
+export const MAX_FEED_ENTRIES = 10;
+
+// Versions of the summary written for a result; the formatted summary is always included
+export const OUTPUT_FORMATS = [
+  { value: "formatted", label: "Formatted" },
+  { value: "breadtext", label: "Speed reading" },
+] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]["value"];
+
+// Saved combinations of output settings, one of which can be the user's default
+export const MAX_PRESETS_PER_USER = 20;
+export const MAX_PRESET_NAME_LENGTH = 100;
 
 export const USAGE_LIMIT_PER_DAY = 50;
@@ -0,0 +1,241 @@
+import { XMLParser } from "fast-xml-parser";
+import { parseHTML } from "linkedom";
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES } from "./constants";
+import { safeFetch } from "./safe-fetch";
+
+const USER_AGENT = "elasticdocument";
+// Sitemap files fetched per crawl, counting nested sitemap indexes
+const MAX_SITEMAP_FETCHES = 10;
+const SITEMAP_TIMEOUT_MS = 20_000;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+interface Robots {
+  rules: RobotsRule[];
+  sitemaps: string[];
+}
+
+export interface CrawlProgress {
+  /** Pages found so far, and the URL just visited. */
+  found: number;
+  url: string;
+}
+
+export interface CrawlOptions {
+  maxPages?: number;
+  maxDepth?: number;
+  onProgress?: (progress: CrawlProgress) => void;
+}
+
+function robotsPattern(path: string): RegExp {
+  const escaped = path.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped.endsWith("\\$") ? escaped.slice(0, -2) + "$" : escaped}`);
+}
+
+/**
+ * Parse robots.txt, keeping the rules of the group for our user agent
+ * (or `*` when there is none) and any Sitemap lines.
+ */
+function parseRobots(text: string): Robots {
+  const groups = new Map<string, RobotsRule[]>();
+  const sitemaps: string[] = [];
+  let agents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const [, key, value] = match;
+
+    switch (key.toLowerCase()) {
+      case "user-agent":
+        if (inRules) agents = [];
+        inRules = false;
+        agents.push(value.toLowerCase());
+        for (const agent of agents) if (!groups.has(agent)) groups.set(agent, []);
+        break;
+      case "allow":
+      case "disallow":
+        inRules = true;
+        if (!value) break; // An empty Disallow allows everything
+        for (const agent of agents) {
+          groups.get(agent)!.push({ allow: key.toLowerCase() === "allow", pattern: robotsPattern(value), length: value.length });
+        }
+        break;
+      case "sitemap":
+        sitemaps.push(value);
+        break;
+    }
+  }
+
+  return { rules: groups.get(USER_AGENT) ?? groups.get("*") ?? [], sitemaps };
+}
+
+/**
+ * Whether robots rules allow a URL: the most specific (longest) matching rule
+ * wins, and Allow wins ties.
+ */
+function isAllowedByRobots(robots: Robots, url: URL): boolean {
+  const path = url.pathname + url.search;
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!rule.pattern.test(path)) continue;
+    if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) best = rule;
+  }
+  return best?.allow ?? true;
+}
+
+async function fetchRobots(origin: string): Promise<Robots> {
+  try {
+    const response = await safeFetch(`${origin}/robots.txt`, {
+      timeoutMs: SITEMAP_TIMEOUT_MS,
+      allowedContentTypes: ["text/plain"],
+    });
+    return parseRobots(response.content.toString("utf-8"));
+  } catch {
+    // No robots.txt (or unreadable): nothing is disallowed
+    return { rules: [], sitemaps: [] };
+  }
+}
+
+/**
+ * The section of the site to crawl: the root URL's directory. A last path
+ * segment without an extension (`/docs`) is treated as a directory.
+ */
+function sectionPrefix(root: URL): string {
+  const path = root.pathname;
+  if (path.endsWith("/")) return path;
+  const lastSegment = path.split("/").pop() ?? "";
+  return lastSegment.includes(".") ? path.slice(0, path.length - lastSegment.length) : `${path}/`;
+}
+
+function normalizeUrl(url: URL): string {
+  const normalized = new URL(url);
+  normalized.hash = "";
+  return normalized.href;
+}
+
+/**
+ * Read page URLs from the site's sitemaps (those listed in robots.txt, or
+ * /sitemap.xml), following sitemap indexes.
+ */
+async function readSitemaps(origin: string, robots: Robots): Promise<string[]> {
+  const parser = new XMLParser({ removeNSPrefix: true });
+  const queue = robots.sitemaps.length > 0 ? [...robots.sitemaps] : [`${origin}/sitemap.xml`];
+  const seen = new Set<string>();
+  const pages: string[] = [];
+
+  while (queue.length > 0 && seen.size < MAX_SITEMAP_FETCHES) {
+    const sitemapUrl = queue.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+
+    try {
+      const response = await safeFetch(sitemapUrl, {
+        timeoutMs: SITEMAP_TIMEOUT_MS,
+        allowedContentTypes: ["application/xml", "text/xml", "text/plain"],
+      });
+      const xml = parser.parse(response.content.toString("utf-8"));
+      const locs = (entries: unknown) =>
+        (Array.isArray(entries) ? entries : entries ? [entries] : [])
+          .map((entry) => (entry as { loc?: unknown }).loc)
+          .filter((loc): loc is string => typeof loc === "string")
+          .map((loc) => loc.trim());
+
+      queue.push(...locs(xml.sitemapindex?.sitemap));
+      pages.push(...locs(xml.urlset?.url));
+    } catch {
+      // Missing or invalid sitemap: try the next one
+    }
+  }
+
+  return pages;
+}
+
+function linksOnPage(html: string, pageUrl: string): URL[] {
+  const { document } = parseHTML(html);
+  const links: URL[] = [];
+  for (const a of document.querySelectorAll("a[href]")) {
+    try {
+      links.push(new URL(a.getAttribute("href")!, pageUrl));
+    } catch {
+      // Skip malformed links
+    }
+  }
+  return links;
+}
+
+/**
+ * Find the pages of a site section to summarize together, starting at `rootUrl`.
+ * Uses the sitemap when it lists pages under the root's path, otherwise follows
+ * links breadth-first. Only pages on the same host and under the same path are
+ * included, robots.txt is respected, and both the number of pages and the
+ * depth (path levels below the root, or link hops) are limited.
+ * The root URL is always the first page returned.
+ */
+export async function discoverPages(rootUrl: string, options: CrawlOptions = {}): Promise<string[]> {
+  const maxPages = options.maxPages ?? MAX_CRAWL_PAGES;
+  const maxDepth = options.maxDepth ?? MAX_CRAWL_DEPTH;
+  const root = new URL(rootUrl);
+  const prefix = sectionPrefix(root);
+  const robots = await fetchRobots(root.origin);
+
+  const pages = [normalizeUrl(root)];
+  // The root was requested explicitly, but nothing beyond it may be crawled
+  if (!isAllowedByRobots(robots, root)) return pages;
+
+  const inSection = (url: URL) =>
+    url.host === root.host &&
+    (url.protocol === "http:" || url.protocol === "https:") &&
+    (url.pathname.startsWith(prefix) || `${url.pathname}/` === prefix) &&
+    isAllowedByRobots(robots, url);
+
+  // Sitemap: depth is the number of path levels below the section root
+  for (const loc of await readSitemaps(root.origin, robots)) {
+    if (pages.length >= maxPages) break;
+    let url: URL;
+    try {
+      url = new URL(loc);
+    } catch {
+      continue;
+    }
+    const depth = url.pathname.slice(prefix.length).split("/").filter(Boolean).length;
+    const href = normalizeUrl(url);
+    if (inSection(url) && depth <= maxDepth && !pages.includes(href)) {
+      pages.push(href);
+      options.onProgress?.({ found: pages.length, url: href });
+    }
+  }
+  if (pages.length > 1) return pages;
+
+  // No usable sitemap: follow links breadth-first, depth is the number of hops
+  const queue: { url: string; depth: number }[] = [{ url: pages[0], depth: 0 }];
+  while (queue.length > 0 && pages.length < maxPages) {
+    const { url, depth } = queue.shift()!;
+    if (depth >= maxDepth) continue;
+
+    let html: string;
+    try {
+      const response = await safeFetch(url, { allowedContentTypes: ["text/html", "application/xhtml+xml"] });
+      html = response.content.toString("utf-8");
+    } catch {
+      continue;
+    }
+
+    for (const link of linksOnPage(html, url)) {
+      const href = normalizeUrl(link);
+      if (pages.length >= maxPages) break;
+      if (!inSection(link) || pages.includes(href)) continue;
+      pages.push(href);
+      queue.push({ url: href, depth: depth + 1 });
+      options.onProgress?.({ found: pages.length, url: href });
+    }
+  }
+
+  return pages;
+}
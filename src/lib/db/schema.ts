@@ -7,8 +7,11 @@ import {
   integer,
   index,
   primaryKey,
+  jsonb,
+  real,
 } from "drizzle-orm/pg-core";
 import { createId } from "@paralleldrive/cuid2";
+import type { ScrapeAttempt } from "../scrapers";
 
 // ─── BetterAuth Tables ───────────────────────────────────────
 
@@ -82,11 +85,26 @@ export const document = pgTable(
     fileType: text("fileType").notNull(),
     fileSize: integer("fileSize").notNull(),
     blobUrl: text("blobUrl").notNull(),
+    // SHA-256 of the file contents (hex), for uploads and fetched URLs
+    contentHash: text("contentHash"),
     isUrl: boolean("isUrl").notNull().default(false),
     sourceUrl: text("sourceUrl"),
+    followPagination: boolean("followPagination").notNull().default(false),
+    // Crawl the site section under sourceUrl; each crawled page gets its own document
+    crawl: boolean("crawl").notNull().default(false),
+    // Article metadata for web pages
+    title: text("title"),
+    byline: text("byline"),
+    publishedAt: timestamp("publishedAt"),
+    // Scraper backends tried for web pages, and the one that produced the content
+    scrapeBackend: text("scrapeBackend"),
+    scrapeAttempts: jsonb("scrapeAttempts").$type<ScrapeAttempt[]>(),
     createdAt: timestamp("createdAt").notNull().defaultNow(),
   },
-  (t) => [index("document_userId_idx").on(t.userId)]
+  (t) => [
+    index("document_userId_idx").on(t.userId),
+    index("document_contentHash_idx").on(t.contentHash),
+  ]
 );
 
 export const processedResult = pgTable(
@@ -99,11 +117,22 @@ export const processedResult = pgTable(
     readingMinutes: integer("readingMinutes").notNull(),
     complexityLevel: text("complexityLevel").notNull(),
     outputLanguage: text("outputLanguage").notNull(),
+    // Optional topics and questions the summary should concentrate on
+    focus: text("focus"),
+    focusQuestions: text("focusQuestions").array().notNull().default([]),
+    // Summary versions to write: "formatted" and optionally "breadtext"
+    outputFormats: text("outputFormats").array().notNull().default(["formatted", "breadtext"]),
     markdownContent: text("markdownContent").notNull(),
     extractedImages: text("extractedImages").array().notNull().default([]),
     outputContent: text("outputContent").notNull(),
     outputBreadtext: text("outputBreadtext").notNull().default(""),
     outputImages: text("outputImages").array().notNull().default([]),
+    // Readable words in the formatted output, and their reading time at WORDS_PER_MINUTE
+    outputWordCount: integer("outputWordCount"),
+    outputReadingMinutes: real("outputReadingMinutes"),
+    // Summarizer provider and model that produced the output
+    summarizerProvider: text("summarizerProvider"),
+    summarizerModel: text("summarizerModel"),
     createdAt: timestamp("createdAt").notNull().defaultNow(),
   },
   (t) => [index("processed_result_userId_idx").on(t.userId)]
@@ -122,6 +151,65 @@ export const usageLog = pgTable(
   (t) => [index("usage_log_userId_createdAt_idx").on(t.userId, t.createdAt)]
 );
 
+// Extracted markdown and image URLs by a hash of the content and whatever else
+// changes the extraction (file extension, OCR provider, page URL), shared
+// across users, so known content is not OCR'd or scraped again
+export const extractionCache = pgTable("extraction_cache", {
+  contentHash: text("contentHash").primaryKey(),
+  markdown: text("markdown").notNull(),
+  images: text("images").array().notNull().default([]),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+});
+
+export const feedSubscription = pgTable(
+  "feed_subscription",
+  {
+    id: text("id").primaryKey().$defaultFn(() => createId()),
+    userId: text("userId")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    title: text("title"),
+    // Output settings used for every digest of this feed
+    readingMinutes: integer("readingMinutes").notNull(),
+    complexityLevel: text("complexityLevel").notNull(),
+    outputLanguage: text("outputLanguage").notNull(),
+    schedule: text("schedule").notNull().default("daily"),
+    // GUIDs of entries already seen, newest first
+    lastSeenGuids: text("lastSeenGuids").array().notNull().default([]),
+    lastRunAt: timestamp("lastRunAt"),
+    lastError: text("lastError"),
+    nextRunAt: timestamp("nextRunAt").notNull().defaultNow(),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+  },
+  (t) => [
+    index("feed_subscription_userId_idx").on(t.userId),
+    index("feed_subscription_nextRunAt_idx").on(t.nextRunAt),
+  ]
+);
+
+export const summaryPreset = pgTable(
+  "summary_preset",
+  {
+    id: text("id").primaryKey().$defaultFn(() => createId()),
+    userId: text("userId")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    readingMinutes: integer("readingMinutes").notNull(),
+    complexityLevel: text("complexityLevel").notNull(),
+    outputLanguage: text("outputLanguage").notNull(),
+    outputFormats: text("outputFormats").array().notNull().default(["formatted", "breadtext"]),
+    focus: text("focus"),
+    focusQuestions: text("focusQuestions").array().notNull().default([]),
+    // Applied when the dashboard opens; at most one per user
+    isDefault: boolean("isDefault").notNull().default(false),
+    createdAt: timestamp("createdAt").notNull().defaultNow(),
+    updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+  },
+  (t) => [index("summary_preset_userId_idx").on(t.userId)]
+);
+
 // ─── Prisma implicit join table (existing) ───────────────────
 
 export const documentToProcessedResult = pgTable(
@@ -133,6 +221,9 @@ export const documentToProcessedResult = pgTable(
     B: text("B")
       .notNull()
       .references(() => processedResult.id, { onDelete: "cascade" }),
+    // Part of the document included in the result: pages (e.g. "3-5, 8") or sections by heading
+    pageRange: text("pageRange"),
+    headings: text("headings").array(),
   },
   (t) => [
     primaryKey({ columns: [t.A, t.B] }),
@@ -148,6 +239,8 @@ export const userRelations = relations(user, ({ many }) => ({
   documents: many(document),
   processedResults: many(processedResult),
   usageLogs: many(usageLog),
+  feedSubscriptions: many(feedSubscription),
+  summaryPresets: many(summaryPreset),
 }));
 
 export const sessionRelations = relations(session, ({ one }) => ({
@@ -178,6 +271,14 @@ export const usageLogRelations = relations(usageLog, ({ one }) => ({
   user: one(user, { fields: [usageLog.userId], references: [user.id] }),
 }));
 
+export const feedSubscriptionRelations = relations(feedSubscription, ({ one }) => ({
+  user: one(user, { fields: [feedSubscription.userId], references: [user.id] }),
+}));
+
+export const summaryPresetRelations = relations(summaryPreset, ({ one }) => ({
+  user: one(user, { fields: [summaryPreset.userId], references: [user.id] }),
+}));
+
 export const documentToProcessedResultRelations = relations(
   documentToProcessedResult,
   ({ one }) => ({
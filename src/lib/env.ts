@@ -1,19 +1,50 @@
+import {
+  OCR_PROVIDERS,
+  SCRAPER_BACKENDS,
+  SUMMARIZER_PROVIDERS,
+  type OcrProviderName,
+  type ScraperBackendName,
+  type SummarizerProviderName,
+} from "./constants";
+
 const requiredEnvVars = [
   "DATABASE_URL",
   "BETTER_AUTH_SECRET",
   "BETTER_AUTH_URL",
-  "ANTHROPIC_API_KEY",
   "BLOB_READ_WRITE_TOKEN",
 ] as const;
 
-const optionalEnvVars = [
-  "MISTRAL_API_KEY",
-] as const;
+// Env vars each summarizer provider needs; nothing can be summarized without them
+const summarizerProviderEnvVars: Record<SummarizerProviderName, string[]> = {
+  anthropic: ["ANTHROPIC_API_KEY"],
+  openai: [],
+  fake: [],
+};
+
+// Env vars each OCR provider needs; OCR will not work if they are missing
+const ocrProviderEnvVars: Record<OcrProviderName, string[]> = {
+  mistral: ["MISTRAL_API_KEY"],
+  tesseract: [],
+};
+
+// Env vars each scraper backend needs; the backend is skipped if they are missing
+const scraperBackendEnvVars: Record<ScraperBackendName, string[]> = {
+  renderer: ["RENDERER_URL"],
+  jina: [],
+  direct: [],
+};
 
 export function validateEnv() {
   const missing: string[] = [];
 
-  for (const key of requiredEnvVars) {
+  const summarizerProvider = (process.env.SUMMARIZER_PROVIDER || "anthropic") as SummarizerProviderName;
+  if (!SUMMARIZER_PROVIDERS.includes(summarizerProvider)) {
+    throw new Error(
+      `Invalid SUMMARIZER_PROVIDER "${summarizerProvider}". Expected one of: ${SUMMARIZER_PROVIDERS.join(", ")}`
+    );
+  }
+
+  for (const key of [...requiredEnvVars, ...summarizerProviderEnvVars[summarizerProvider]]) {
     if (!process.env[key]) {
       missing.push(key);
     }
@@ -25,13 +56,45 @@ export function validateEnv() {
     );
   }
 
+  const ocrProvider = (process.env.OCR_PROVIDER || "mistral") as OcrProviderName;
+  if (!OCR_PROVIDERS.includes(ocrProvider)) {
+    throw new Error(
+      `Invalid OCR_PROVIDER "${ocrProvider}". Expected one of: ${OCR_PROVIDERS.join(", ")}`
+    );
+  }
+
   const missingOptional: string[] = [];
-  for (const key of optionalEnvVars) {
+  for (const key of ocrProviderEnvVars[ocrProvider]) {
     if (!process.env[key]) {
       missingOptional.push(key);
     }
   }
 
+  const scraperBackends = (process.env.SCRAPER_BACKENDS || "jina,direct")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean) as ScraperBackendName[];
+  for (const backend of scraperBackends) {
+    if (!SCRAPER_BACKENDS.includes(backend)) {
+      throw new Error(
+        `Invalid scraper backend "${backend}" in SCRAPER_BACKENDS. Expected any of: ${SCRAPER_BACKENDS.join(", ")}`
+      );
+    }
+    for (const key of scraperBackendEnvVars[backend]) {
+      if (!process.env[key]) {
+        console.warn(`[elasticdocument] Missing env var ${key} (scraper backend "${backend}" will be skipped)`);
+      }
+    }
+  }
+
+  if (summarizerProvider === "openai" && !process.env.OPENAI_BASE_URL && !process.env.OPENAI_API_KEY) {
+    console.warn("[elasticdocument] Missing env var OPENAI_BASE_URL or OPENAI_API_KEY (summarization will not work)");
+  }
+
+  if (!process.env.CRON_SECRET) {
+    console.warn("[elasticdocument] Missing env var CRON_SECRET (scheduled feed digests will be refused)");
+  }
+
   if (missingOptional.length > 0) {
     console.warn(
       `[elasticdocument] Missing optional env vars (OCR will not work): ${missingOptional.join(", ")}`
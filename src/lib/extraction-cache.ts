@@ -0,0 +1,50 @@
+import { createHash } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { extractionCache } from "./db/schema";
+
+export interface CachedExtraction {
+  markdown: string;
+  images: string[];
+}
+
+/**
+ * SHA-256 of file contents, hex-encoded. Identifies documents and keys the
+ * extraction cache.
+ */
+export function hashContent(...parts: (Buffer | Uint8Array | string)[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) hash.update(part);
+  return hash.digest("hex");
+}
+
+/**
+ * Look up a previous extraction of the same content. Cache errors are treated
+ * as a miss, so extraction never fails because of the cache.
+ */
+export async function getCachedExtraction(contentHash: string): Promise<CachedExtraction | null> {
+  try {
+    const entry = await db.query.extractionCache.findFirst({
+      where: eq(extractionCache.contentHash, contentHash),
+    });
+    if (!entry) return null;
+    return { markdown: entry.markdown, images: entry.images };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store an extraction; the first one stored for a hash is kept. Failing to
+ * store only means the content is extracted again next time.
+ */
+export async function cacheExtraction(contentHash: string, extraction: CachedExtraction): Promise<void> {
+  try {
+    await db
+      .insert(extractionCache)
+      .values({ contentHash, markdown: extraction.markdown, images: extraction.images })
+      .onConflictDoNothing();
+  } catch {
+    // Not cached
+  }
+}
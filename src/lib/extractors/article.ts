@@ -0,0 +1,91 @@
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import { createTurndown, htmlToMarkdown } from "../html-markdown";
+
+export interface Article {
+  markdown: string;
+  /** Absolute URLs of images kept in the article. */
+  images: string[];
+  title: string | null;
+  byline: string | null;
+  publishedAt: Date | null;
+}
+
+// Attributes lazy-loading scripts use for the real image URL
+const LAZY_IMAGE_ATTRIBUTES = ["data-src", "data-original", "data-lazy-src", "data-url"];
+
+function absoluteUrl(value: string, base: string): string | null {
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve image and link URLs against the page URL (or its <base>), picking up
+ * lazy-loaded image sources, so the article keeps working links out of context.
+ */
+function absolutizeUrls(document: Document, pageUrl: string): void {
+  const baseHref = document.querySelector("base[href]")?.getAttribute("href");
+  const base = (baseHref && absoluteUrl(baseHref, pageUrl)) || pageUrl;
+
+  for (const img of document.querySelectorAll("img")) {
+    const lazy = LAZY_IMAGE_ATTRIBUTES.map((a) => img.getAttribute(a)).find(Boolean);
+    const src = img.getAttribute("src");
+    const raw = lazy && (!src || src.startsWith("data:")) ? lazy : src;
+    const url = raw && !raw.startsWith("data:") ? absoluteUrl(raw, base) : null;
+    if (url) img.setAttribute("src", url);
+    else img.remove();
+  }
+
+  for (const link of document.querySelectorAll("a[href]")) {
+    const href = link.getAttribute("href")!;
+    if (href.startsWith("#")) continue;
+    const url = absoluteUrl(href, base);
+    if (url) link.setAttribute("href", url);
+    else link.removeAttribute("href");
+  }
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Extract the main article from a web page, dropping navigation, cookie banners,
+ * footers and comments. Content blocks are scored Readability-style; tables,
+ * figure images and code blocks are kept. Pages without an identifiable article
+ * fall back to converting the whole page.
+ */
+export function extractArticle(html: string, pageUrl: string): Article {
+  const { document } = parseHTML(html);
+  absolutizeUrls(document, pageUrl);
+  const pageTitle = document.querySelector("title")?.textContent?.trim() || null;
+
+  // Readability strips the document it parses; the fallback needs it intact
+  const article = new Readability(document.cloneNode(true) as Document).parse();
+  if (!article?.content) {
+    const markdown = htmlToMarkdown(document.documentElement.outerHTML);
+    return { markdown, images: [], title: pageTitle, byline: null, publishedAt: null };
+  }
+
+  let markdown = createTurndown().turndown(article.content).trim();
+  const title = article.title?.trim() || pageTitle;
+  if (title && !/^#\s/.test(markdown)) {
+    markdown = `# ${title}\n\n${markdown}`;
+  }
+
+  const images = [...markdown.matchAll(/!\[[^\]]*\]\((https?:\/\/[^)\s]+)/g)].map((m) => m[1]);
+
+  return {
+    markdown,
+    images: [...new Set(images)],
+    title,
+    byline: article.byline?.trim() || null,
+    publishedAt: parseDate(article.publishedTime),
+  };
+}
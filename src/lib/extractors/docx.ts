@@ -0,0 +1,341 @@
+import type { OcrResult } from "../ocr";
+import {
+  type XmlNode,
+  type ZipEntries,
+  type Relationship,
+  childElement,
+  childElements,
+  findAll,
+  markdownTable,
+  readRelationships,
+  readZipXml,
+  textContent,
+  uploadPackageImages,
+} from "./ooxml";
+
+const DOCUMENT_PART = "word/document.xml";
+
+interface StyleInfo {
+  name: string;
+  outlineLevel: number | null;
+}
+
+interface DocxContext {
+  styles: Map<string, StyleInfo>;
+  numberingFormats: Map<string, Map<string, string>>;
+  rels: Map<string, Relationship>;
+  imageUrls: Map<string, string>;
+}
+
+interface Segment {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  link?: string;
+}
+
+interface Block {
+  markdown: string;
+  isListItem: boolean;
+}
+
+export function isDocx(entries: ZipEntries): boolean {
+  return DOCUMENT_PART in entries;
+}
+
+/**
+ * Extract a Word (.docx) document into markdown without OCR. Headings, lists,
+ * tables, links and embedded images are preserved; images are uploaded to blob storage.
+ */
+export async function extractDocx(entries: ZipEntries, userId: string): Promise<OcrResult> {
+  const root = readZipXml(entries, DOCUMENT_PART);
+  const body = root && findAll(root, "body")[0];
+  if (!body) {
+    throw new Error("Invalid Word document: missing document body");
+  }
+
+  const rels = readRelationships(entries, DOCUMENT_PART);
+  const ctx: DocxContext = {
+    styles: readStyles(entries),
+    numberingFormats: readNumbering(entries),
+    rels,
+    imageUrls: new Map(),
+  };
+
+  // Upload each embedded image once, even if it is referenced several times
+  const imageRels = [...findAll(body, "blip"), ...findAll(body, "imagedata")]
+    .map((ref) => ref.attrs.embed ?? ref.attrs.id)
+    .filter((relId) => relId && rels.has(relId) && !rels.get(relId)!.external);
+  const uploaded = await uploadPackageImages(
+    entries,
+    imageRels.map((relId) => rels.get(relId)!.target),
+    userId
+  );
+  for (const relId of imageRels) {
+    const url = uploaded.get(rels.get(relId)!.target);
+    if (url) ctx.imageUrls.set(relId, url);
+  }
+
+  const blocks = renderBlocks(childElements(body), ctx);
+  return { markdown: joinBlocks(blocks), images: [...new Set(uploaded.values())] };
+}
+
+function readStyles(entries: ZipEntries): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  const root = readZipXml(entries, "word/styles.xml");
+  if (!root) return styles;
+
+  for (const style of findAll(root, "style")) {
+    const id = style.attrs.styleId;
+    if (!id) continue;
+    const name = childElement(style, "name")?.attrs.val ?? id;
+    const pPr = childElement(style, "pPr");
+    const outline = pPr && childElement(pPr, "outlineLvl");
+    styles.set(id, {
+      name: name.toLowerCase(),
+      outlineLevel: outline ? Number(outline.attrs.val) : null,
+    });
+  }
+  return styles;
+}
+
+/**
+ * Map numId → (level → numFmt) so list items can be rendered as bullets or numbers.
+ */
+function readNumbering(entries: ZipEntries): Map<string, Map<string, string>> {
+  const formats = new Map<string, Map<string, string>>();
+  const root = readZipXml(entries, "word/numbering.xml");
+  if (!root) return formats;
+
+  const abstractFormats = new Map<string, Map<string, string>>();
+  for (const abstract of findAll(root, "abstractNum")) {
+    const levels = new Map<string, string>();
+    for (const lvl of childElements(abstract, "lvl")) {
+      levels.set(lvl.attrs.ilvl, childElement(lvl, "numFmt")?.attrs.val ?? "bullet");
+    }
+    abstractFormats.set(abstract.attrs.abstractNumId, levels);
+  }
+
+  for (const num of findAll(root, "num")) {
+    const abstractId = childElement(num, "abstractNumId")?.attrs.val;
+    const levels = abstractId ? abstractFormats.get(abstractId) : undefined;
+    if (levels) formats.set(num.attrs.numId, levels);
+  }
+  return formats;
+}
+
+function renderBlocks(nodes: XmlNode[], ctx: DocxContext): Block[] {
+  const blocks: Block[] = [];
+  for (const node of nodes) {
+    if (node.name === "p") {
+      const block = renderParagraph(node, ctx);
+      if (block) blocks.push(block);
+    } else if (node.name === "tbl") {
+      const table = renderTable(node, ctx);
+      if (table) blocks.push({ markdown: table, isListItem: false });
+    } else if (node.name === "sdt") {
+      const content = childElement(node, "sdtContent");
+      if (content) blocks.push(...renderBlocks(childElements(content), ctx));
+    }
+  }
+  return blocks;
+}
+
+function joinBlocks(blocks: Block[]): string {
+  let markdown = "";
+  blocks.forEach((block, i) => {
+    if (i > 0) {
+      markdown += block.isListItem && blocks[i - 1].isListItem ? "\n" : "\n\n";
+    }
+    markdown += block.markdown;
+  });
+  return markdown.trim();
+}
+
+function isOn(node: XmlNode | undefined): boolean {
+  if (!node) return false;
+  const val = node.attrs.val;
+  return val === undefined || !["0", "false", "off", "none"].includes(val);
+}
+
+function headingLevel(pPr: XmlNode | undefined, ctx: DocxContext): number | null {
+  const styleId = pPr && childElement(pPr, "pStyle")?.attrs.val;
+  const style = styleId ? ctx.styles.get(styleId) : undefined;
+  const name = style?.name ?? styleId?.toLowerCase() ?? "";
+
+  if (name === "title") return 1;
+  const match = name.match(/^heading\s*(\d)$/);
+  if (match) return Math.min(Number(match[1]), 6);
+
+  const outline = pPr && childElement(pPr, "outlineLvl");
+  const level = outline ? Number(outline.attrs.val) : style?.outlineLevel;
+  if (typeof level === "number" && level >= 0 && level < 9) return Math.min(level + 1, 6);
+  return null;
+}
+
+function listMarker(pPr: XmlNode | undefined, ctx: DocxContext): { indent: number; marker: string } | null {
+  const numPr = pPr && childElement(pPr, "numPr");
+  if (numPr) {
+    const numId = childElement(numPr, "numId")?.attrs.val;
+    const ilvl = childElement(numPr, "ilvl")?.attrs.val ?? "0";
+    if (numId && numId !== "0") {
+      const format = ctx.numberingFormats.get(numId)?.get(ilvl) ?? "bullet";
+      return { indent: Number(ilvl) || 0, marker: format === "bullet" || format === "none" ? "-" : "1." };
+    }
+  }
+
+  const styleId = pPr && childElement(pPr, "pStyle")?.attrs.val;
+  const styleName = styleId ? ctx.styles.get(styleId)?.name ?? "" : "";
+  if (styleName.startsWith("list bullet")) return { indent: 0, marker: "-" };
+  if (styleName.startsWith("list number")) return { indent: 0, marker: "1." };
+  return null;
+}
+
+function renderParagraph(p: XmlNode, ctx: DocxContext): Block | null {
+  const pPr = childElement(p, "pPr");
+  const level = headingLevel(pPr, ctx);
+  const segments = collectSegments(p, ctx, { bold: false, italic: false });
+  const text = renderSegments(segments, level !== null).trim();
+  if (!text) return null;
+
+  if (level !== null) {
+    return { markdown: `${"#".repeat(level)} ${text.replace(/\n+/g, " ")}`, isListItem: false };
+  }
+
+  const list = listMarker(pPr, ctx);
+  if (list) {
+    return {
+      markdown: `${"  ".repeat(list.indent)}${list.marker} ${text.replace(/\n+/g, " ")}`,
+      isListItem: true,
+    };
+  }
+
+  return { markdown: text, isListItem: false };
+}
+
+function collectSegments(
+  node: XmlNode,
+  ctx: DocxContext,
+  format: { bold: boolean; italic: boolean; link?: string }
+): Segment[] {
+  const segments: Segment[] = [];
+
+  for (const child of node.children) {
+    switch (child.name) {
+      case "r": {
+        const rPr = childElement(child, "rPr");
+        const runFormat = {
+          ...format,
+          bold: format.bold || isOn(rPr && childElement(rPr, "b")),
+          italic: format.italic || isOn(rPr && childElement(rPr, "i")),
+        };
+        segments.push(...collectSegments(child, ctx, runFormat));
+        break;
+      }
+      case "t":
+        segments.push({ ...format, text: textContent(child) });
+        break;
+      case "tab":
+        segments.push({ ...format, text: " " });
+        break;
+      case "br":
+      case "cr":
+        segments.push({ ...format, link: undefined, text: "\n" });
+        break;
+      case "drawing":
+      case "pict":
+      case "object": {
+        for (const ref of [...findAll(child, "blip"), ...findAll(child, "imagedata")]) {
+          const url = ctx.imageUrls.get(ref.attrs.embed ?? ref.attrs.id);
+          if (!url) continue;
+          const alt = findAll(child, "docPr")[0]?.attrs.descr ?? "";
+          segments.push({ bold: false, italic: false, text: `![${alt.replace(/[[\]]/g, "")}](${url})` });
+        }
+        break;
+      }
+      case "hyperlink": {
+        const rel = child.attrs.id ? ctx.rels.get(child.attrs.id) : undefined;
+        const link = rel?.external ? rel.target : format.link;
+        segments.push(...collectSegments(child, ctx, { ...format, link }));
+        break;
+      }
+      case "pPr":
+      case "rPr":
+      case "delText":
+      case "del":
+      case "instrText":
+        break;
+      default:
+        // ins, smartTag, fldSimple, sdt, sdtContent and similar wrappers
+        segments.push(...collectSegments(child, ctx, format));
+    }
+  }
+
+  return segments;
+}
+
+function wrapFormatting(text: string, bold: boolean, italic: boolean): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  const [, lead, core, trail] = match;
+  if (!core) return text;
+  let wrapped = core;
+  if (italic) wrapped = `*${wrapped}*`;
+  if (bold) wrapped = `**${wrapped}**`;
+  return `${lead}${wrapped}${trail}`;
+}
+
+function renderSegments(segments: Segment[], plain: boolean): string {
+  // Merge adjacent runs that share the same formatting
+  const merged: Segment[] = [];
+  for (const seg of segments) {
+    const prev = merged[merged.length - 1];
+    if (prev && prev.bold === seg.bold && prev.italic === seg.italic && prev.link === seg.link) {
+      prev.text += seg.text;
+    } else {
+      merged.push({ ...seg });
+    }
+  }
+
+  let markdown = "";
+  let i = 0;
+  while (i < merged.length) {
+    const link = merged[i].link;
+    let inner = "";
+    while (i < merged.length && merged[i].link === link) {
+      const seg = merged[i];
+      inner += plain ? seg.text : wrapFormatting(seg.text, seg.bold, seg.italic);
+      i++;
+    }
+    if (link && inner.trim()) {
+      const [, lead, core, trail] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      markdown += `${lead}[${core}](${link})${trail}`;
+    } else {
+      markdown += inner;
+    }
+  }
+  return markdown;
+}
+
+function renderTable(tbl: XmlNode, ctx: DocxContext): string {
+  const rows: string[][] = [];
+
+  for (const tr of childElements(tbl, "tr")) {
+    const row: string[] = [];
+    for (const tc of childElements(tr, "tc")) {
+      const tcPr = childElement(tc, "tcPr");
+      const span = Number(tcPr && childElement(tcPr, "gridSpan")?.attrs.val) || 1;
+      const vMerge = tcPr && childElement(tcPr, "vMerge");
+      const isContinuation = vMerge && vMerge.attrs.val !== "restart";
+
+      const cell = isContinuation
+        ? ""
+        : renderBlocks(childElements(tc), ctx)
+            .map((b) => b.markdown.replace(/^#+\s+/, "").replace(/^\s*(?:-|1\.)\s+/, ""))
+            .join(" ");
+      row.push(cell, ...Array(span - 1).fill(""));
+    }
+    if (row.length > 0) rows.push(row);
+  }
+
+  return markdownTable(rows);
+}
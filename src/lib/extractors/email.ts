@@ -0,0 +1,189 @@
+import { simpleParser, type AddressObject } from "mailparser";
+import MsgReader from "@kenjiuno/msgreader";
+import { uploadImage } from "../images";
+import { htmlToMarkdown } from "../html-markdown";
+import type { ExtractedAttachment, ExtractionResult } from "./index";
+
+const OLE2_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+interface EmailParts {
+  subject: string;
+  from: string;
+  to: string;
+  cc: string;
+  date: string;
+  text: string;
+  html: string;
+  inlineImages: { contentId: string; contentType: string; data: Buffer }[];
+  attachments: ExtractedAttachment[];
+}
+
+function extensionOf(fileName: string): string {
+  return fileName.split(".").pop()?.toLowerCase() ?? "";
+}
+
+/**
+ * Whether a file is a MIME email (.eml). Files without the extension are
+ * recognized by a leading header block containing From: and Subject:/Date:.
+ */
+export function isEml(buffer: Buffer, fileName: string, contentType: string | null): boolean {
+  if (extensionOf(fileName) === "eml" || contentType?.includes("message/rfc822")) return true;
+
+  const head = buffer.subarray(0, 4096).toString("latin1");
+  const headerBlock = head.split(/\r?\n\r?\n/)[0];
+  return (
+    /^[\w-]+:[^\n]*\r?\n/.test(head) &&
+    /^From:/im.test(headerBlock) &&
+    /^(Subject|Date):/im.test(headerBlock)
+  );
+}
+
+/**
+ * Whether a file is an Outlook message (.msg). These share the OLE2 signature
+ * with legacy Office files, so the extension or content type decides.
+ */
+export function isMsg(buffer: Buffer, fileName: string, contentType: string | null): boolean {
+  if (!buffer.subarray(0, 8).equals(OLE2_SIGNATURE)) return false;
+  return extensionOf(fileName) === "msg" || !!contentType?.includes("application/vnd.ms-outlook");
+}
+
+function formatAddresses(address: AddressObject | AddressObject[] | undefined): string {
+  if (!address) return "";
+  return (Array.isArray(address) ? address : [address])
+    .flatMap((a) => a.value)
+    .map((a) => (a.name && a.address ? `${a.name} <${a.address}>` : a.address || a.name))
+    .filter(Boolean)
+    .join(", ");
+}
+
+export async function extractEml(buffer: Buffer, userId: string): Promise<ExtractionResult> {
+  const mail = await simpleParser(buffer, { skipTextToHtml: true });
+
+  const inlineImages: EmailParts["inlineImages"] = [];
+  const attachments: ExtractedAttachment[] = [];
+  for (const att of mail.attachments) {
+    if (att.contentId && att.related && att.contentType.startsWith("image/")) {
+      inlineImages.push({ contentId: att.contentId, contentType: att.contentType, data: att.content });
+    } else {
+      attachments.push({
+        fileName: att.filename || `attachment.${att.contentType === "message/rfc822" ? "eml" : "bin"}`,
+        contentType: att.contentType,
+        data: att.content,
+      });
+    }
+  }
+
+  return renderEmail(
+    {
+      subject: mail.subject ?? "",
+      from: formatAddresses(mail.from),
+      to: formatAddresses(mail.to),
+      cc: formatAddresses(mail.cc),
+      date: mail.date ? mail.date.toUTCString() : "",
+      text: mail.text ?? "",
+      html: typeof mail.html === "string" ? mail.html : "",
+      inlineImages,
+      attachments,
+    },
+    userId
+  );
+}
+
+export async function extractMsg(buffer: Buffer, userId: string): Promise<ExtractionResult> {
+  const reader = new MsgReader(new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength));
+  const fields = reader.getFileData();
+  if (fields.dataType !== "msg") {
+    throw new Error("Invalid Outlook message file");
+  }
+
+  const recipients = (type: "to" | "cc") =>
+    (fields.recipients ?? [])
+      .filter((r) => (r.recipType ?? "to") === type)
+      .map((r) => (r.email && r.name && r.name !== r.email ? `${r.name} <${r.email}>` : r.email || r.name))
+      .filter(Boolean)
+      .join(", ");
+
+  const html = fields.bodyHtml ?? (fields.html ? new TextDecoder().decode(fields.html) : "");
+  const inlineImages: EmailParts["inlineImages"] = [];
+  const attachments: ExtractedAttachment[] = [];
+
+  for (const att of fields.attachments ?? []) {
+    if (att.attachmentHidden && !att.pidContentId) continue;
+    const { fileName, content } = reader.getAttachment(att);
+    const data = Buffer.from(content);
+    const contentType = att.attachMimeTag ?? "application/octet-stream";
+
+    if (att.pidContentId && html.includes(`cid:${att.pidContentId}`) && contentType.startsWith("image/")) {
+      inlineImages.push({ contentId: att.pidContentId, contentType, data });
+    } else if (data.length > 0) {
+      attachments.push({ fileName: fileName || att.fileName || "attachment.bin", contentType, data });
+    }
+  }
+
+  const sender =
+    fields.senderEmail && fields.senderName && fields.senderName !== fields.senderEmail
+      ? `${fields.senderName} <${fields.senderEmail}>`
+      : fields.senderEmail || fields.senderName || "";
+  const sentAt = fields.clientSubmitTime ?? fields.messageDeliveryTime;
+
+  return renderEmail(
+    {
+      subject: fields.subject ?? "",
+      from: sender,
+      to: recipients("to"),
+      cc: recipients("cc"),
+      date: sentAt ? new Date(sentAt).toUTCString() : "",
+      text: fields.body ?? "",
+      html,
+      inlineImages,
+      attachments,
+    },
+    userId
+  );
+}
+
+/**
+ * Render an email as markdown: subject heading, header fields, then the body.
+ * HTML bodies are preferred; inline (cid:) images are uploaded and embedded.
+ * Other attachments are returned for the pipeline to extract as separate documents.
+ */
+async function renderEmail(email: EmailParts, userId: string): Promise<ExtractionResult> {
+  const images: string[] = [];
+  let body = email.text.replace(/\r\n?/g, "\n").trim();
+
+  if (email.html.trim()) {
+    const cidUrls = new Map<string, string>();
+    for (const img of email.inlineImages) {
+      const url = await uploadImage(img.data, img.contentType, userId);
+      if (!url) continue;
+      cidUrls.set(img.contentId.replace(/^<|>$/g, ""), url);
+      if (!images.includes(url)) images.push(url);
+    }
+
+    // htmlToMarkdown drops <img> tags, so turn inline images into markdown first
+    const html = email.html.replace(
+      /<img\b[^>]*?src\s*=\s*["']cid:([^"']+)["'][^>]*>/gi,
+      (tag, cid: string) => {
+        const url = cidUrls.get(cid);
+        if (!url) return "";
+        const alt = tag.match(/\balt\s*=\s*["']([^"']*)["']/i)?.[1] ?? "";
+        return `\n\n![${alt.replace(/[[\]]/g, "")}](${url})\n\n`;
+      }
+    );
+    body = htmlToMarkdown(html);
+  }
+
+  const headerLines = [
+    email.from && `**From:** ${email.from}`,
+    email.to && `**To:** ${email.to}`,
+    email.cc && `**Cc:** ${email.cc}`,
+    email.date && `**Date:** ${email.date}`,
+    email.attachments.length > 0 && `**Attachments:** ${email.attachments.map((a) => a.fileName).join(", ")}`,
+  ].filter(Boolean);
+
+  const markdown = [`## ${email.subject || "(no subject)"}`, headerLines.join("  \n"), body]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return { markdown, images, attachments: email.attachments };
+}
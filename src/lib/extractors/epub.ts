@@ -0,0 +1,175 @@
+import type { OcrResult } from "../ocr";
+import { htmlToMarkdown } from "../html-markdown";
+import {
+  type XmlNode,
+  type ZipEntries,
+  childElements,
+  findAll,
+  findFirst,
+  readZipText,
+  readZipXml,
+  resolvePartPath,
+  textContent,
+  uploadPackageImages,
+} from "./ooxml";
+
+const CONTAINER_PART = "META-INF/container.xml";
+
+interface ManifestItem {
+  id: string;
+  path: string;
+  mediaType: string;
+  properties: string;
+}
+
+export function isEpub(entries: ZipEntries): boolean {
+  return CONTAINER_PART in entries;
+}
+
+/**
+ * Extract an EPUB book into markdown in reading (spine) order. Each chapter gets a
+ * heading from the table of contents, and the cover and inline images are uploaded.
+ */
+export async function extractEpub(entries: ZipEntries, userId: string): Promise<OcrResult> {
+  const container = readZipXml(entries, CONTAINER_PART);
+  const opfPath = container && findFirst(container, "rootfile")?.attrs["full-path"];
+  const opf = opfPath ? readZipXml(entries, opfPath) : null;
+  if (!opfPath || !opf) {
+    throw new Error("Invalid EPUB file: missing package document");
+  }
+
+  const manifest = new Map<string, ManifestItem>();
+  for (const item of findAll(opf, "item")) {
+    manifest.set(item.attrs.id, {
+      id: item.attrs.id,
+      path: resolvePartPath(opfPath, safeDecode(item.attrs.href ?? "")),
+      mediaType: item.attrs["media-type"] ?? "",
+      properties: item.attrs.properties ?? "",
+    });
+  }
+
+  const tocTitles = readTocTitles(entries, opf, manifest);
+  const uploaded = new Map<string, string>();
+  const parts: string[] = [];
+
+  // Book title, author and cover
+  const title = textContent(findFirst(opf, "title") ?? emptyNode()).trim();
+  const author = textContent(findFirst(opf, "creator") ?? emptyNode()).trim();
+  if (title) parts.push(`# ${title}`);
+  if (author) parts.push(`_${author}_`);
+
+  const coverPath = findCoverPath(opf, manifest);
+  if (coverPath) await uploadPackageImages(entries, [coverPath], userId, uploaded);
+  const coverUrl = coverPath ? uploaded.get(coverPath) : undefined;
+  if (coverUrl) parts.push(`![Cover](${coverUrl})`);
+
+  const spine = findAll(opf, "itemref")
+    .filter((ref) => ref.attrs.linear !== "no")
+    .map((ref) => manifest.get(ref.attrs.idref))
+    .filter((item): item is ManifestItem => !!item && /x?html/.test(item.mediaType));
+
+  for (const [index, item] of spine.entries()) {
+    const html = readZipText(entries, item.path);
+    if (!html) continue;
+
+    const markdown = await chapterToMarkdown(html, item.path, entries, userId, uploaded);
+    // Skip empty chapters and the cover page, whose image is already at the top
+    const withoutCover = markdown.replace(/!\[[^\]]*\]\(([^)]+)\)/g, (image, url) => (url === coverUrl ? "" : image)).trim();
+    if (!withoutCover) continue;
+
+    const startsWithHeading = /^#{1,6}\s/.test(withoutCover);
+    const heading = tocTitles.get(item.path) ?? `Chapter ${index + 1}`;
+    parts.push(startsWithHeading ? withoutCover : `## ${heading}\n\n${withoutCover}`);
+  }
+
+  return { markdown: parts.join("\n\n"), images: [...new Set(uploaded.values())] };
+}
+
+function safeDecode(href: string): string {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+}
+
+function emptyNode(): XmlNode {
+  return { name: "", attrs: {}, children: [] };
+}
+
+function findCoverPath(opf: XmlNode, manifest: Map<string, ManifestItem>): string | null {
+  // EPUB 3 marks the cover in the manifest; EPUB 2 uses <meta name="cover" content="id">
+  const epub3Cover = [...manifest.values()].find((item) => item.properties.split(/\s+/).includes("cover-image"));
+  if (epub3Cover) return epub3Cover.path;
+
+  const coverId = findAll(opf, "meta").find((m) => m.attrs.name === "cover")?.attrs.content;
+  const epub2Cover = coverId ? manifest.get(coverId) : undefined;
+  return epub2Cover?.mediaType.startsWith("image/") ? epub2Cover.path : null;
+}
+
+/**
+ * Map chapter file paths to their table-of-contents titles, from the EPUB 3
+ * navigation document or the EPUB 2 NCX.
+ */
+function readTocTitles(
+  entries: ZipEntries,
+  opf: XmlNode,
+  manifest: Map<string, ManifestItem>
+): Map<string, string> {
+  const titles = new Map<string, string>();
+  const addTitle = (basePath: string, href: string | undefined, title: string) => {
+    if (!href || !title.trim()) return;
+    const path = resolvePartPath(basePath, safeDecode(href.split("#")[0]));
+    if (!titles.has(path)) titles.set(path, title.replace(/\s+/g, " ").trim());
+  };
+
+  const nav = [...manifest.values()].find((item) => item.properties.split(/\s+/).includes("nav"));
+  const navRoot = nav && readZipXml(entries, nav.path);
+  if (nav && navRoot) {
+    const tocNav = findAll(navRoot, "nav").find((n) => n.attrs.type === "toc") ?? findFirst(navRoot, "nav");
+    for (const link of tocNav ? findAll(tocNav, "a") : []) {
+      addTitle(nav.path, link.attrs.href, textContent(link));
+    }
+    if (titles.size > 0) return titles;
+  }
+
+  const spine = findFirst(opf, "spine");
+  const ncx = spine?.attrs.toc ? manifest.get(spine.attrs.toc) : undefined;
+  const ncxRoot = ncx && readZipXml(entries, ncx.path);
+  if (ncx && ncxRoot) {
+    for (const point of findAll(ncxRoot, "navPoint")) {
+      const label = childElements(point, "navLabel")[0];
+      const content = childElements(point, "content")[0];
+      addTitle(ncx.path, content?.attrs.src, label ? textContent(label) : "");
+    }
+  }
+
+  return titles;
+}
+
+/**
+ * Convert one XHTML chapter to markdown, replacing <img>/<image> tags with
+ * markdown images that point at the uploaded blob URLs.
+ */
+async function chapterToMarkdown(
+  html: string,
+  chapterPath: string,
+  entries: ZipEntries,
+  userId: string,
+  uploaded: Map<string, string>
+): Promise<string> {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+
+  const imageTag = /<(?:img|image)\b[^>]*?(?:src|href)\s*=\s*["']([^"']+)["'][^>]*>/gi;
+  const paths = [...body.matchAll(imageTag)].map((m) => resolvePartPath(chapterPath, safeDecode(m[1])));
+  await uploadPackageImages(entries, paths, userId, uploaded);
+
+  const withImages = body.replace(imageTag, (tag, src: string) => {
+    const url = uploaded.get(resolvePartPath(chapterPath, safeDecode(src)));
+    if (!url) return "";
+    const alt = tag.match(/\balt\s*=\s*["']([^"']*)["']/i)?.[1] ?? "";
+    return `\n\n![${alt.replace(/[[\]]/g, "")}](${url})\n\n`;
+  });
+
+  return htmlToMarkdown(withImages);
+}
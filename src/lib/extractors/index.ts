@@ -0,0 +1,159 @@
+import { cacheExtraction, getCachedExtraction, hashContent } from "../extraction-cache";
+import { withImageDedupe } from "../images";
+import { ocrProviderName, runOcr, type OcrProgressCallback, type OcrResult } from "../ocr";
+import { safeFetch } from "../safe-fetch";
+import type { PageRange } from "../selection";
+import { readZip } from "./ooxml";
+import { extractDocx, isDocx } from "./docx";
+import { extractEml, extractMsg, isEml, isMsg } from "./email";
+import { extractEpub, isEpub } from "./epub";
+import { extractPdf, isPdf } from "./pdf";
+import { extractPptx, isPptx } from "./pptx";
+import { extractCsv, extractXlsx, isXlsx } from "./spreadsheet";
+import { decodeText, extractText, isTextDocument } from "./text";
+
+const FETCH_TIMEOUT_MS = 60_000;
+
+interface SourceDocument {
+  blobUrl: string;
+  fileName: string;
+}
+
+export interface ExtractedAttachment {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface ExtractOptions {
+  /** Called as OCR works through the pages of a PDF. */
+  onProgress?: OcrProgressCallback;
+  /** Only extract these pages (PDF pages or PowerPoint slides). */
+  pageRanges?: PageRange[];
+}
+
+/**
+ * Extracted content. Container formats (e.g. emails) may also return attached
+ * files, which the pipeline stores and extracts as documents of their own.
+ */
+export interface ExtractionResult extends OcrResult {
+  attachments?: ExtractedAttachment[];
+  /** Whether the result came from the extraction cache. */
+  cached?: boolean;
+  /** The pages extracted, e.g. "3-5, 8", when a page range was applied. */
+  pagesIncluded?: string;
+  /** Whether pages that needed OCR fell back to their text layer; such results are not cached. */
+  degraded?: boolean;
+}
+
+/**
+ * Download a stored file. Blob URLs come from the client, so they go through
+ * the same SSRF-safe fetcher as user-submitted URLs.
+ */
+export async function fetchFile(fileUrl: string): Promise<{ buffer: Buffer; contentType: string | null }> {
+  const response = await safeFetch(fileUrl, { timeoutMs: FETCH_TIMEOUT_MS });
+  return { buffer: response.content, contentType: response.contentType };
+}
+
+function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32BE(0) === 0x504b0304;
+}
+
+/**
+ * Extract markdown and images from an uploaded document. Formats that can be
+ * parsed locally (Office documents, spreadsheets, e-books, emails and text files)
+ * skip OCR, digital PDFs only OCR their scanned pages, and everything else goes to OCR.
+ */
+export async function extractDocument(
+  doc: SourceDocument,
+  userId: string,
+  options: ExtractOptions = {}
+): Promise<ExtractionResult> {
+  const { buffer, contentType } = await fetchFile(doc.blobUrl);
+  return extractFile(buffer, contentType, doc.fileName, doc.blobUrl, userId, options);
+}
+
+/**
+ * Extract an already-downloaded file. `fileUrl` is where the file is stored,
+ * used by OCR providers to infer the type when the content type is missing.
+ * Content extracted before (by any user) is served from the extraction cache,
+ * unless only some pages are extracted. The cache key includes the file
+ * extension and the OCR provider, which both change what is extracted. Images that repeat within the file are
+ * stored once.
+ */
+export async function extractFile(
+  buffer: Buffer,
+  contentType: string | null,
+  fileName: string,
+  fileUrl: string,
+  userId: string,
+  options: ExtractOptions = {}
+): Promise<ExtractionResult> {
+  if (options.pageRanges) {
+    return withImageDedupe(() => extractUncached(buffer, contentType, fileName, fileUrl, userId, options));
+  }
+
+  const ext = fileName.split(".").pop()?.toLowerCase() ?? "";
+  const cacheKey = hashContent(ext, "\n", ocrProviderName(), "\n", buffer);
+  const cached = await getCachedExtraction(cacheKey);
+  if (cached) {
+    return { ...cached, cached: true };
+  }
+
+  const result = await withImageDedupe(() =>
+    extractUncached(buffer, contentType, fileName, fileUrl, userId, options)
+  );
+  // Attachments are not cached: they are stored as documents of their own on every run
+  if (!result.attachments?.length && !result.degraded && result.markdown.trim()) {
+    await cacheExtraction(cacheKey, result);
+  }
+  return result;
+}
+
+async function extractUncached(
+  buffer: Buffer,
+  contentType: string | null,
+  fileName: string,
+  fileUrl: string,
+  userId: string,
+  options: ExtractOptions
+): Promise<ExtractionResult> {
+  if (isZip(buffer)) {
+    const entries = readZip(buffer);
+    if (isDocx(entries)) {
+      return extractDocx(entries, userId);
+    }
+    if (isPptx(entries)) {
+      return extractPptx(entries, userId, options.pageRanges);
+    }
+    if (isXlsx(entries)) {
+      return extractXlsx(entries);
+    }
+    if (isEpub(entries)) {
+      return extractEpub(entries, userId);
+    }
+  }
+
+  if (isPdf(buffer)) {
+    return extractPdf(buffer, contentType, fileUrl, userId, options.onProgress, options.pageRanges);
+  }
+
+  if (isMsg(buffer, fileName, contentType)) {
+    return extractMsg(buffer, userId);
+  }
+
+  const ext = fileName.split(".").pop()?.toLowerCase();
+  if (ext === "csv" || ext === "tsv" || contentType?.includes("text/csv")) {
+    return extractCsv(decodeText(buffer, contentType), fileName);
+  }
+
+  if (isEml(buffer, fileName, contentType)) {
+    return extractEml(buffer, userId);
+  }
+
+  if (isTextDocument(buffer, fileName, contentType)) {
+    return extractText(buffer, fileName, contentType);
+  }
+
+  return runOcr(buffer, contentType, fileUrl, userId, options.onProgress);
+}
@@ -0,0 +1,232 @@
+import { unzipSync } from "fflate";
+import { XMLParser } from "fast-xml-parser";
+import { MAX_PACKAGE_ENTRIES, MAX_PACKAGE_ENTRY_SIZE, MAX_PACKAGE_UNCOMPRESSED_SIZE } from "../constants";
+import { uploadImage, imageTypeFromPath } from "../images";
+
+export interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text?: string;
+}
+
+export interface Relationship {
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+export type ZipEntries = Record<string, Uint8Array>;
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  removeNSPrefix: true,
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+type RawNode = Record<string, unknown> & { ":@"?: Record<string, string> };
+
+function toNode(raw: RawNode): XmlNode | null {
+  if ("#text" in raw) {
+    return { name: "#text", attrs: {}, children: [], text: String(raw["#text"]) };
+  }
+  const name = Object.keys(raw).find((k) => k !== ":@");
+  if (!name || name.startsWith("?")) return null;
+  const rawChildren = (raw[name] as RawNode[] | undefined) ?? [];
+  return {
+    name,
+    attrs: raw[":@"] ?? {},
+    children: rawChildren.map(toNode).filter((n): n is XmlNode => n !== null),
+  };
+}
+
+/**
+ * Parse an XML string into a simple ordered node tree with namespace prefixes removed.
+ */
+export function parseXml(xml: string): XmlNode {
+  const raw = parser.parse(xml) as RawNode[];
+  return {
+    name: "#document",
+    attrs: {},
+    children: raw.map(toNode).filter((n): n is XmlNode => n !== null),
+  };
+}
+
+export function childElements(node: XmlNode, name?: string): XmlNode[] {
+  return node.children.filter((c) => c.name !== "#text" && (!name || c.name === name));
+}
+
+export function childElement(node: XmlNode, name: string): XmlNode | undefined {
+  return node.children.find((c) => c.name === name);
+}
+
+/**
+ * Find all descendants with the given element name, in document order.
+ */
+export function findAll(node: XmlNode, name: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  for (const child of node.children) {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  }
+  return found;
+}
+
+export function findFirst(node: XmlNode, name: string): XmlNode | undefined {
+  for (const child of node.children) {
+    if (child.name === name) return child;
+    const nested = findFirst(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+export function textContent(node: XmlNode): string {
+  if (node.name === "#text") return node.text ?? "";
+  return node.children.map(textContent).join("");
+}
+
+function megabytes(bytes: number): number {
+  return Math.round(bytes / (1024 * 1024));
+}
+
+/**
+ * Unzip a package, checking its entry count and the sizes declared in it
+ * against the package limits before anything is inflated. The inflater never
+ * writes past a declared size, so a lying header cannot bypass the limits.
+ * With `inflate` false nothing is inflated, and only the limits are checked.
+ */
+function unzipPackage(buffer: Buffer | Uint8Array, inflate: boolean): ZipEntries {
+  let entryCount = 0;
+  let totalSize = 0;
+  let limitError: string | null = null;
+  const exceed = (message: string): never => {
+    limitError = message;
+    throw new Error(message);
+  };
+
+  try {
+    return unzipSync(new Uint8Array(buffer), {
+      filter: (entry) => {
+        if (++entryCount > MAX_PACKAGE_ENTRIES) {
+          exceed(`Document has more than ${MAX_PACKAGE_ENTRIES} parts`);
+        }
+        if (entry.originalSize > MAX_PACKAGE_ENTRY_SIZE) {
+          exceed(`Document part ${entry.name} expands to more than ${megabytes(MAX_PACKAGE_ENTRY_SIZE)}MB`);
+        }
+        totalSize += entry.originalSize;
+        if (totalSize > MAX_PACKAGE_UNCOMPRESSED_SIZE) {
+          exceed(`Document expands to more than ${megabytes(MAX_PACKAGE_UNCOMPRESSED_SIZE)}MB`);
+        }
+        return inflate;
+      },
+    });
+  } catch (err) {
+    throw limitError ? new Error(limitError) : err;
+  }
+}
+
+/** Unzip an Office or EPUB package; throws when it exceeds the package limits. */
+export function readZip(buffer: Buffer | Uint8Array): ZipEntries {
+  return unzipPackage(buffer, true);
+}
+
+/** Throw when a package exceeds the package limits, without inflating it. */
+export function checkZipLimits(buffer: Buffer | Uint8Array): void {
+  unzipPackage(buffer, false);
+}
+
+export function readZipText(entries: ZipEntries, path: string): string | null {
+  const data = entries[path];
+  return data ? new TextDecoder().decode(data) : null;
+}
+
+export function readZipXml(entries: ZipEntries, path: string): XmlNode | null {
+  const xml = readZipText(entries, path);
+  return xml ? parseXml(xml) : null;
+}
+
+/**
+ * Resolve a relative package path against the directory of a base part.
+ */
+export function resolvePartPath(basePart: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const segments = basePart.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment && segment !== ".") segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+/**
+ * Read the relationships of a package part (e.g. word/_rels/document.xml.rels),
+ * keyed by relationship id with internal targets resolved to zip entry paths.
+ */
+export function readRelationships(entries: ZipEntries, partPath: string): Map<string, Relationship> {
+  const dir = partPath.split("/").slice(0, -1).join("/");
+  const file = partPath.split("/").pop();
+  const relsPath = `${dir ? `${dir}/` : ""}_rels/${file}.rels`;
+  const rels = new Map<string, Relationship>();
+
+  const root = readZipXml(entries, relsPath);
+  if (!root) return rels;
+
+  for (const rel of findAll(root, "Relationship")) {
+    const external = rel.attrs.TargetMode === "External";
+    rels.set(rel.attrs.Id, {
+      type: rel.attrs.Type?.split("/").pop() ?? "",
+      target: external ? rel.attrs.Target : resolvePartPath(partPath, rel.attrs.Target),
+      external,
+    });
+  }
+
+  return rels;
+}
+
+/**
+ * Upload images stored inside a package, once per distinct entry path. Entries
+ * already present in `uploaded` are reused; missing, unsupported and tiny
+ * decorative ones are skipped. Returns the map of entry path → blob URL.
+ */
+export async function uploadPackageImages(
+  entries: ZipEntries,
+  paths: Iterable<string>,
+  userId: string,
+  uploaded: Map<string, string> = new Map()
+): Promise<Map<string, string>> {
+  for (const path of paths) {
+    if (uploaded.has(path)) continue;
+    const data = entries[path];
+    const contentType = imageTypeFromPath(path);
+    if (!data || data.length === 0 || !contentType) continue;
+    const url = await uploadImage(data, contentType, userId);
+    if (url) uploaded.set(path, url);
+  }
+  return uploaded;
+}
+
+/**
+ * Escape characters that would break a GFM table cell.
+ */
+export function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ").trim();
+}
+
+export function markdownTable(rows: string[][]): string {
+  if (rows.length === 0) return "";
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill("")];
+  const [header, ...body] = rows.map(pad);
+
+  const lines = [
+    `| ${header.map(escapeTableCell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...body.map((row) => `| ${row.map(escapeTableCell).join(" | ")} |`),
+  ];
+  return lines.join("\n");
+}
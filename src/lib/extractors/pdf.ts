@@ -0,0 +1,100 @@
+import { extractText, getDocumentProxy } from "unpdf";
+import { joinPages } from "../chunking";
+import { getOcrProvider, runOcr, runOcrPages, type OcrProgressCallback } from "../ocr";
+import { formatPageIndexes, selectedPageIndexes, type PageRange } from "../selection";
+import type { ExtractionResult } from "./index";
+
+// A page needs at least this much real text to skip OCR
+const MIN_PAGE_CHARS = 80;
+// Share of characters that may be unmappable glyphs, control or private-use codepoints
+const MAX_GARBAGE_RATIO = 0.05;
+// Share of non-whitespace characters that must be letters or digits
+const MIN_ALPHANUMERIC_RATIO = 0.6;
+
+export function isPdf(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString("latin1") === "%PDF-";
+}
+
+/**
+ * Decide whether a page's embedded text layer is good enough to use instead of OCR.
+ * Scanned pages have little or no text; broken font encodings produce garbage glyphs.
+ */
+function isUsableTextLayer(text: string): boolean {
+  const chars = text.replace(/\s+/g, "");
+  if (chars.length < MIN_PAGE_CHARS) return false;
+
+  const garbage = chars.match(/[\uFFFD\p{Co}\p{Cc}\p{Cs}]/gu)?.length ?? 0;
+  if (garbage / chars.length > MAX_GARBAGE_RATIO) return false;
+
+  const alphanumeric = chars.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  return alphanumeric / chars.length >= MIN_ALPHANUMERIC_RATIO;
+}
+
+function cleanPageText(text: string): string {
+  return text
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extract a PDF using its embedded text layer, sending only scanned or
+ * low-quality pages to OCR. Pages are combined in their original order.
+ * When the OCR provider is not configured, the text layer is used for every page.
+ * `onProgress` reports progress through the pages sent to OCR. When `pageRanges`
+ * is given, only those pages are extracted.
+ */
+export async function extractPdf(
+  buffer: Buffer,
+  contentType: string | null,
+  fileUrl: string,
+  userId: string,
+  onProgress?: OcrProgressCallback,
+  pageRanges?: PageRange[]
+): Promise<ExtractionResult> {
+  let pageTexts: string[];
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    ({ text: pageTexts } = await extractText(pdf, { mergePages: false }));
+  } catch {
+    // Unparseable locally (e.g. encrypted) — let OCR handle the whole file
+    return runOcr(buffer, contentType, fileUrl, userId, onProgress);
+  }
+
+  // Unselected pages are blanked so they are neither OCR'd nor included
+  const selected = pageRanges ? new Set(selectedPageIndexes(pageRanges, pageTexts.length)) : null;
+  if (selected?.size === 0) {
+    throw new Error(`The selected pages are outside the document (${pageTexts.length} pages)`);
+  }
+  const pages = pageTexts.map((text, index) => (!selected || selected.has(index) ? cleanPageText(text) : ""));
+  const pagesIncluded = selected ? { pagesIncluded: formatPageIndexes([...selected]) } : {};
+  const ocrIndexes = pages
+    .map((text, index) => (isUsableTextLayer(text) || (selected && !selected.has(index)) ? -1 : index))
+    .filter((index) => index >= 0);
+
+  const provider = getOcrProvider();
+  if (ocrIndexes.length === 0 || !provider.isConfigured()) {
+    const markdown = joinPages(pages.map((markdown, index) => ({ index, markdown })));
+    if (!markdown && ocrIndexes.length > 0) {
+      throw new Error(`OCR provider "${provider.name}" is not configured`);
+    }
+    return { markdown, images: [], degraded: ocrIndexes.length > 0, ...pagesIncluded };
+  }
+
+  let images: string[] = [];
+  let degraded = false;
+  try {
+    const ocr = await runOcrPages(buffer, contentType, fileUrl, userId, ocrIndexes, onProgress);
+    for (const page of ocr.pages) {
+      if (page.markdown.trim()) pages[page.index] = page.markdown;
+    }
+    images = ocr.images;
+  } catch (err) {
+    // Fall back to whatever text layer exists rather than failing the whole document
+    if (pages.every((text) => !text)) throw err;
+    degraded = true;
+  }
+
+  const markdown = joinPages(pages.map((markdown, index) => ({ index, markdown })));
+  return { markdown, images, degraded, ...pagesIncluded };
+}
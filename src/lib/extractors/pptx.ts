@@ -0,0 +1,188 @@
+import { formatPageIndexes, selectedPageIndexes, type PageRange } from "../selection";
+import type { ExtractionResult } from "./index";
+import {
+  type XmlNode,
+  type ZipEntries,
+  type Relationship,
+  childElement,
+  childElements,
+  findAll,
+  findFirst,
+  markdownTable,
+  readRelationships,
+  readZipXml,
+  textContent,
+  uploadPackageImages,
+} from "./ooxml";
+
+const PRESENTATION_PART = "ppt/presentation.xml";
+
+const TITLE_PLACEHOLDERS = ["title", "ctrTitle"];
+const BODY_PLACEHOLDERS = ["body", "obj", undefined];
+
+export function isPptx(entries: ZipEntries): boolean {
+  return PRESENTATION_PART in entries;
+}
+
+/**
+ * Extract a PowerPoint (.pptx) deck into markdown with one section per slide.
+ * Each section holds the slide title, bullet hierarchy, tables, images and speaker notes.
+ * When `slides` is given, only those slides are extracted (ranges count slides as pages).
+ */
+export async function extractPptx(
+  entries: ZipEntries,
+  userId: string,
+  slides?: PageRange[]
+): Promise<ExtractionResult> {
+  const presentation = readZipXml(entries, PRESENTATION_PART);
+  if (!presentation) {
+    throw new Error("Invalid PowerPoint file: missing presentation");
+  }
+
+  const presentationRels = readRelationships(entries, PRESENTATION_PART);
+  const slidePaths = findAll(presentation, "sldId")
+    .map((s) => presentationRels.get(s.attrs.id))
+    .filter((rel): rel is Relationship => !!rel && !rel.external)
+    .map((rel) => rel.target);
+
+  const uploaded = new Map<string, string>();
+  const sections: string[] = [];
+  const selected = slides ? new Set(selectedPageIndexes(slides, slidePaths.length)) : null;
+
+  for (const [index, slidePath] of slidePaths.entries()) {
+    if (selected && !selected.has(index)) continue;
+    const slide = readZipXml(entries, slidePath);
+    const tree = slide && findFirst(slide, "spTree");
+    if (!tree) continue;
+
+    const rels = readRelationships(entries, slidePath);
+    const imageTargets = findAll(tree, "blip")
+      .map((blip) => rels.get(blip.attrs.embed))
+      .filter((rel): rel is Relationship => !!rel && !rel.external)
+      .map((rel) => rel.target);
+    await uploadPackageImages(entries, imageTargets, userId, uploaded);
+
+    const slideContent = { title: "", blocks: [] as string[] };
+    renderShapes(childElements(tree), rels, uploaded, slideContent);
+
+    const heading = `## Slide ${index + 1}${slideContent.title ? `: ${slideContent.title}` : ""}`;
+    const parts = [heading, ...slideContent.blocks];
+
+    const notes = readSpeakerNotes(entries, rels);
+    if (notes) parts.push(`**Speaker notes:** ${notes}`);
+
+    sections.push(parts.join("\n\n"));
+  }
+
+  return {
+    markdown: sections.join("\n\n"),
+    images: [...new Set(uploaded.values())],
+    ...(selected ? { pagesIncluded: formatPageIndexes([...selected]) } : {}),
+  };
+}
+
+function placeholderType(shape: XmlNode): string | undefined | null {
+  const ph = findFirst(childElement(shape, "nvSpPr") ?? shape, "ph");
+  return ph ? ph.attrs.type : null;
+}
+
+function renderShapes(
+  shapes: XmlNode[],
+  rels: Map<string, Relationship>,
+  imageUrls: Map<string, string>,
+  slide: { title: string; blocks: string[] }
+) {
+  for (const shape of shapes) {
+    switch (shape.name) {
+      case "sp": {
+        const txBody = childElement(shape, "txBody");
+        if (!txBody) break;
+        const type = placeholderType(shape);
+
+        if (type !== null && TITLE_PLACEHOLDERS.includes(type ?? "") && !slide.title) {
+          slide.title = textContent(txBody).replace(/\s+/g, " ").trim();
+          break;
+        }
+
+        const isBody = type !== null && BODY_PLACEHOLDERS.includes(type);
+        const text = renderTextBody(txBody, isBody);
+        if (text) slide.blocks.push(text);
+        break;
+      }
+      case "pic": {
+        const blip = findFirst(shape, "blip");
+        const rel = blip ? rels.get(blip.attrs.embed) : undefined;
+        const url = rel && imageUrls.get(rel.target);
+        if (url) {
+          const alt = findFirst(shape, "cNvPr")?.attrs.descr ?? "";
+          slide.blocks.push(`![${alt.replace(/[[\]]/g, "")}](${url})`);
+        }
+        break;
+      }
+      case "graphicFrame": {
+        const tbl = findFirst(shape, "tbl");
+        if (tbl) {
+          const rows = childElements(tbl, "tr").map((tr) =>
+            childElements(tr, "tc").map((tc) => textContent(tc).trim())
+          );
+          const table = markdownTable(rows);
+          if (table) slide.blocks.push(table);
+        }
+        break;
+      }
+      case "grpSp":
+        renderShapes(childElements(shape), rels, imageUrls, slide);
+        break;
+    }
+  }
+}
+
+/**
+ * Render a shape's paragraphs. Body placeholders and paragraphs with explicit
+ * bullets become nested list items; other text boxes become plain paragraphs.
+ */
+function renderTextBody(txBody: XmlNode, isBody: boolean): string {
+  const lines: { text: string; bullet: boolean; level: number }[] = [];
+
+  for (const p of childElements(txBody, "p")) {
+    const text = p.children
+      .map((child) => {
+        if (child.name === "r" || child.name === "fld") return textContent(childElement(child, "t") ?? child);
+        if (child.name === "br") return " ";
+        return "";
+      })
+      .join("")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!text) continue;
+
+    const pPr = childElement(p, "pPr");
+    const hasBullet = !!pPr && (!!childElement(pPr, "buChar") || !!childElement(pPr, "buAutoNum"));
+    const noBullet = !!pPr && !!childElement(pPr, "buNone");
+    lines.push({
+      text,
+      bullet: hasBullet || (isBody && !noBullet),
+      level: Number(pPr?.attrs.lvl) || 0,
+    });
+  }
+
+  let markdown = "";
+  lines.forEach((line, i) => {
+    if (i > 0) markdown += line.bullet && lines[i - 1].bullet ? "\n" : "\n\n";
+    markdown += line.bullet ? `${"  ".repeat(line.level)}- ${line.text}` : line.text;
+  });
+  return markdown;
+}
+
+function readSpeakerNotes(entries: ZipEntries, slideRels: Map<string, Relationship>): string {
+  const notesRel = [...slideRels.values()].find((rel) => rel.type === "notesSlide" && !rel.external);
+  const notes = notesRel && readZipXml(entries, notesRel.target);
+  const tree = notes && findFirst(notes, "spTree");
+  if (!tree) return "";
+
+  return findAll(tree, "sp")
+    .filter((shape) => placeholderType(shape) === "body")
+    .flatMap((shape) => findAll(shape, "p").map((p) => textContent(p).trim()))
+    .filter(Boolean)
+    .join(" ");
+}
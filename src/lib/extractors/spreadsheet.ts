@@ -0,0 +1,273 @@
+import type { OcrResult } from "../ocr";
+import {
+  type ZipEntries,
+  type Relationship,
+  childElement,
+  findAll,
+  markdownTable,
+  readRelationships,
+  readZipXml,
+  textContent,
+} from "./ooxml";
+
+const WORKBOOK_PART = "xl/workbook.xml";
+
+// Large sheets are truncated so the summarization prompt stays within budget
+const MAX_SHEET_ROWS = 200;
+const MAX_SHEET_COLUMNS = 30;
+const MAX_CELL_LENGTH = 200;
+
+// Built-in Excel number formats that represent dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+export function isXlsx(entries: ZipEntries): boolean {
+  return WORKBOOK_PART in entries;
+}
+
+/**
+ * Extract an Excel (.xlsx) workbook into markdown with one GFM table per sheet.
+ */
+export function extractXlsx(entries: ZipEntries): OcrResult {
+  const workbook = readZipXml(entries, WORKBOOK_PART);
+  if (!workbook) {
+    throw new Error("Invalid Excel file: missing workbook");
+  }
+
+  const rels = readRelationships(entries, WORKBOOK_PART);
+  const sharedStrings = readSharedStrings(entries);
+  const dateStyles = readDateStyles(entries);
+
+  const sections: string[] = [];
+  for (const sheet of findAll(workbook, "sheet")) {
+    const rel = rels.get(sheet.attrs.id);
+    if (!rel || rel.external) continue;
+    const { rows, totals } = readSheetRows(entries, rel, sharedStrings, dateStyles);
+    const section = sheetToMarkdown(sheet.attrs.name ?? "Sheet", rows, totals);
+    if (section) sections.push(section);
+  }
+
+  return { markdown: sections.join("\n\n"), images: [] };
+}
+
+/**
+ * Extract a CSV or TSV file into a single markdown table.
+ */
+export function extractCsv(text: string, fileName: string): OcrResult {
+  const rows = parseDelimited(text.replace(/^\uFEFF/, ""));
+  const title = fileName.replace(/\.[^.]+$/, "") || "Table";
+  return { markdown: sheetToMarkdown(title, rows), images: [] };
+}
+
+function readSharedStrings(entries: ZipEntries): string[] {
+  const root = readZipXml(entries, "xl/sharedStrings.xml");
+  if (!root) return [];
+  // Rich text strings are split into several <t> runs; phonetic hints (<rPh>) are skipped
+  return findAll(root, "si").map((si) =>
+    si.children
+      .flatMap((child) => (child.name === "t" ? [child] : child.name === "r" ? findAll(child, "t") : []))
+      .map(textContent)
+      .join("")
+  );
+}
+
+/**
+ * Return the indexes of cell styles (cellXfs) that format numbers as dates.
+ */
+function readDateStyles(entries: ZipEntries): Set<number> {
+  const dateStyles = new Set<number>();
+  const root = readZipXml(entries, "xl/styles.xml");
+  if (!root) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  for (const fmt of findAll(root, "numFmt")) {
+    // Strip quoted literals and bracketed colors/locales before looking for date tokens
+    const code = (fmt.attrs.formatCode ?? "").replace(/"[^"]*"|\[[^\]]*\]/g, "");
+    if (/[dmy]/i.test(code)) customDateFormats.add(Number(fmt.attrs.numFmtId));
+  }
+
+  const cellXfs = findAll(root, "cellXfs")[0];
+  if (!cellXfs) return dateStyles;
+  findAll(cellXfs, "xf").forEach((xf, index) => {
+    const id = Number(xf.attrs.numFmtId);
+    if (DATE_FORMAT_IDS.has(id) || customDateFormats.has(id)) dateStyles.add(index);
+  });
+  return dateStyles;
+}
+
+/** Format a date cell's serial number; values that are not a valid date are kept as they are. */
+function excelSerialToDate(raw: string): string {
+  const serial = Number(raw);
+  // Excel's epoch is 1899-12-30 once the 1900 leap-year bug is accounted for
+  const date = new Date(Math.round((serial - 25569) * 86_400_000));
+  if (Number.isNaN(date.getTime())) return raw;
+  const iso = date.toISOString();
+  return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 16).replace("T", " ");
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** Position from a row or cell reference, or the one after `previous` when there is none. */
+function positionOr(index: number, previous: number): number {
+  return Number.isInteger(index) && index >= 0 ? index : previous + 1;
+}
+
+/**
+ * Read a sheet's non-empty cells into a grid of the rows and columns that have
+ * any, in sheet order. Cell references can point anywhere in the sheet (up to
+ * XFD1048576), so the grid is built from the cells that exist rather than
+ * from their positions, and only as much of it as a sheet shows is kept.
+ * `totals` counts all non-empty rows and columns.
+ */
+function readSheetRows(
+  entries: ZipEntries,
+  rel: Relationship,
+  sharedStrings: string[],
+  dateStyles: Set<number>
+): { rows: string[][]; totals: { rows: number; columns: number } } {
+  const sheet = readZipXml(entries, rel.target);
+  if (!sheet) return { rows: [], totals: { rows: 0, columns: 0 } };
+
+  const cells: { row: number; col: number; value: string }[] = [];
+  let rowIndex = -1;
+  for (const row of findAll(sheet, "row")) {
+    rowIndex = positionOr(Number(row.attrs.r) - 1, rowIndex);
+    let col = -1;
+
+    for (const cell of findAll(row, "c")) {
+      col = positionOr(cell.attrs.r ? columnIndex(cell.attrs.r) : NaN, col);
+      const v = childElement(cell, "v");
+      const raw = v ? textContent(v) : "";
+      let value: string;
+
+      switch (cell.attrs.t) {
+        case "s":
+          value = sharedStrings[Number(raw)] ?? "";
+          break;
+        case "inlineStr":
+          value = findAll(cell, "t").map(textContent).join("");
+          break;
+        case "b":
+          value = raw === "1" ? "TRUE" : "FALSE";
+          break;
+        case "str":
+        case "e":
+          value = raw;
+          break;
+        default:
+          value = raw !== "" && dateStyles.has(Number(cell.attrs.s)) ? excelSerialToDate(raw) : raw;
+      }
+
+      if (value.trim() !== "") cells.push({ row: rowIndex, col, value });
+    }
+  }
+
+  const sortedUnique = (values: number[]) => [...new Set(values)].sort((a, b) => a - b);
+  const rowIndexes = sortedUnique(cells.map((c) => c.row));
+  const columnIndexes = sortedUnique(cells.map((c) => c.col));
+  const keptRows = new Map(rowIndexes.slice(0, MAX_SHEET_ROWS + 1).map((index, i) => [index, i]));
+  const keptColumns = new Map(columnIndexes.slice(0, MAX_SHEET_COLUMNS).map((index, i) => [index, i]));
+
+  const rows = Array.from({ length: keptRows.size }, () => Array<string>(keptColumns.size).fill(""));
+  for (const cell of cells) {
+    const r = keptRows.get(cell.row);
+    const c = keptColumns.get(cell.col);
+    if (r !== undefined && c !== undefined) rows[r][c] = cell.value;
+  }
+
+  return { rows, totals: { rows: rowIndexes.length, columns: columnIndexes.length } };
+}
+
+/**
+ * Parse CSV/TSV text (RFC 4180 quoting), detecting the delimiter from the first line.
+ */
+function parseDelimited(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const delimiter = [",", ";", "\t", "|"]
+    .map((d) => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count.toLocaleString("en-US")} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Render a sheet as a headed GFM table, trimming empty rows/columns and
+ * truncating very large sheets with a note about the original dimensions.
+ * `totals` gives those dimensions when `rows` is already truncated.
+ */
+function sheetToMarkdown(name: string, rows: string[][], totals?: { rows: number; columns: number }): string {
+  const nonEmpty = rows.filter((r) => r.some((v) => v.trim() !== ""));
+  if (nonEmpty.length === 0) return "";
+
+  const usedColumns: number[] = [];
+  const width = nonEmpty.reduce((max, r) => Math.max(max, r.length), 0);
+  for (let col = 0; col < width; col++) {
+    if (nonEmpty.some((r) => (r[col] ?? "").trim() !== "")) usedColumns.push(col);
+  }
+
+  const totalRows = totals?.rows ?? nonEmpty.length;
+  const totalColumns = totals?.columns ?? usedColumns.length;
+  const keptColumns = usedColumns.slice(0, MAX_SHEET_COLUMNS);
+  const keptRows = nonEmpty.slice(0, MAX_SHEET_ROWS + 1); // header + data rows
+
+  const table = markdownTable(
+    keptRows.map((r) =>
+      keptColumns.map((col) => {
+        const value = (r[col] ?? "").trim();
+        return value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH)}…` : value;
+      })
+    )
+  );
+
+  const dataRows = totalRows - 1;
+  let note = `_${plural(dataRows, "row")} × ${plural(totalColumns, "column")}._`;
+  if (keptRows.length < totalRows || keptColumns.length < totalColumns) {
+    note = `_Showing the first ${(keptRows.length - 1).toLocaleString("en-US")} of ${plural(dataRows, "row")} and ${keptColumns.length} of ${plural(totalColumns, "column")}._`;
+  }
+
+  return `## ${name}\n\n${note}\n\n${table}`;
+}
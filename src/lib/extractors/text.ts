@@ -0,0 +1,167 @@
+import type { OcrResult } from "../ocr";
+import { htmlToMarkdown } from "../html-markdown";
+
+const HTML_EXTENSIONS = ["html", "htm", "xhtml", "svg"];
+const TEXT_EXTENSIONS = ["txt", "text", "md", "markdown", "rtf", "json", "xml", "log", ...HTML_EXTENSIONS];
+
+// RTF destinations whose contents are metadata rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "header", "footer",
+  "headerl", "headerr", "footerl", "footerr", "listtable", "listoverridetable",
+  "rsidtbl", "generator", "xmlnstbl", "themedata", "colorschememapping", "latentstyles",
+]);
+
+function extensionOf(fileName: string): string {
+  return fileName.split("?")[0].split(".").pop()?.toLowerCase() ?? "";
+}
+
+/**
+ * Whether a file is text-based and can be read directly instead of being sent to OCR.
+ * Files without a recognized extension or content type are sniffed for binary bytes.
+ */
+export function isTextDocument(buffer: Buffer, fileName: string, contentType: string | null): boolean {
+  if (TEXT_EXTENSIONS.includes(extensionOf(fileName))) return true;
+  if (contentType?.startsWith("image/") && !contentType.includes("svg")) return false;
+  if (contentType?.startsWith("text/") || contentType?.includes("image/svg")) return true;
+  if (contentType?.includes("application/json") || contentType?.includes("xml")) return true;
+
+  // No NUL bytes in the first few KB is a reliable sign of a text file
+  const sample = buffer.subarray(0, 4096);
+  return sample.length > 0 && !sample.includes(0) && !sample.subarray(0, 5).equals(Buffer.from("%PDF-"));
+}
+
+/**
+ * Decode text using its byte-order mark, the declared charset or an HTML meta
+ * charset, falling back to UTF-8 and then Windows-1252 for legacy files.
+ */
+export function decodeText(buffer: Buffer, contentType: string | null): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(buffer.subarray(3));
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(buffer.subarray(2));
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(buffer.subarray(2));
+  }
+
+  const head = buffer.subarray(0, 2048).toString("latin1");
+  const declared =
+    contentType?.match(/charset=["']?([\w-]+)/i)?.[1] ??
+    head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ??
+    head.match(/<\?xml[^>]+encoding=["']([\w-]+)/i)?.[1];
+
+  if (declared) {
+    try {
+      return new TextDecoder(declared.toLowerCase()).decode(buffer);
+    } catch {
+      // Unknown charset label — fall through to detection
+    }
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+}
+
+/**
+ * Read a text-based document directly. HTML and SVG go through the same converter
+ * as scraped web pages, RTF is reduced to plain text, and markdown passes through unchanged.
+ */
+export function extractText(buffer: Buffer, fileName: string, contentType: string | null): OcrResult {
+  const text = decodeText(buffer, contentType);
+  const ext = extensionOf(fileName);
+
+  const isHtml =
+    HTML_EXTENSIONS.includes(ext) ||
+    contentType?.includes("text/html") ||
+    contentType?.includes("image/svg") ||
+    /^\s*<(!doctype html|html[\s>])/i.test(text);
+  if (isHtml) {
+    return { markdown: htmlToMarkdown(text), images: [] };
+  }
+
+  if (ext === "rtf" || text.startsWith("{\\rtf")) {
+    return { markdown: rtfToText(text), images: [] };
+  }
+
+  return { markdown: text.replace(/\r\n?/g, "\n").trim(), images: [] };
+}
+
+/**
+ * Minimal RTF → plain text conversion: keeps paragraphs and unicode/hex-escaped
+ * characters, drops formatting control words and metadata destinations.
+ */
+function rtfToText(rtf: string): string {
+  const stack: { skip: boolean; ucSkip: number }[] = [];
+  let state = { skip: false, ucSkip: 1 };
+  let out = "";
+  let pendingSkip = 0;
+  let i = 0;
+
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === "{") {
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (ch === "}") {
+      state = stack.pop() ?? { skip: false, ucSkip: 1 };
+      i++;
+    } else if (ch === "\\") {
+      const next = rtf[i + 1];
+      if (next === "'") {
+        // \'hh — a Windows-1252 encoded byte
+        const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+        if (pendingSkip > 0) pendingSkip--;
+        else if (!state.skip && !Number.isNaN(byte)) {
+          out += new TextDecoder("windows-1252").decode(new Uint8Array([byte]));
+        }
+        i += 4;
+      } else if (next === "*") {
+        state.skip = true;
+        i += 2;
+      } else if (next && /[\\{}]/.test(next)) {
+        if (!state.skip) out += next;
+        i += 2;
+      } else if (next === "~") {
+        if (!state.skip) out += " ";
+        i += 2;
+      } else {
+        const match = rtf.slice(i).match(/^\\([a-z]+)(-?\d+)? ?/i);
+        if (!match) {
+          i += 2;
+          continue;
+        }
+        const [token, word, param] = match;
+        i += token.length;
+
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) state.skip = true;
+        else if (word === "uc") state.ucSkip = Number(param ?? 1);
+        else if (state.skip) continue;
+        else if (word === "par" || word === "line" || word === "sect" || word === "page") out += "\n";
+        else if (word === "tab" || word === "cell") out += "\t";
+        else if (word === "row") out += "\n";
+        else if (word === "u" && param) {
+          const code = Number(param);
+          out += String.fromCharCode(code < 0 ? code + 65536 : code);
+          pendingSkip = state.ucSkip;
+        }
+      }
+    } else {
+      if (ch !== "\r" && ch !== "\n") {
+        if (pendingSkip > 0) pendingSkip--;
+        else if (!state.skip) out += ch;
+      }
+      i++;
+    }
+  }
+
+  return out
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
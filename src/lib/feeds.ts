@@ -0,0 +1,288 @@
+import { XMLParser } from "fast-xml-parser";
+import { and, count, eq, gte } from "drizzle-orm";
+import { db } from "./db";
+import {
+  document,
+  documentToProcessedResult,
+  feedSubscription,
+  processedResult,
+  usageLog,
+} from "./db/schema";
+import { FEED_SCHEDULES, MAX_FEED_ENTRIES, USAGE_LIMIT_PER_DAY } from "./constants";
+import { isAllowedUrl, safeFetch } from "./safe-fetch";
+import { scrapeUrl, type ScrapedUrl } from "./url-scraper";
+
+const FEED_TIMEOUT_MS = 20_000;
+const MAX_FEED_SIZE = 5 * 1024 * 1024; // 5MB
+// Seen GUIDs kept per subscription; feeds rarely list more than a few dozen entries
+const MAX_SEEN_GUIDS = 500;
+const FEED_CONTENT_TYPES = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/rdf+xml",
+  "application/xml",
+  "text/xml",
+  "text/plain",
+];
+
+export type FeedSubscription = typeof feedSubscription.$inferSelect;
+
+export interface FeedEntry {
+  /** The entry's GUID (RSS), id (Atom) or about URI (RDF); its URL when it has none. */
+  guid: string;
+  url: string;
+  title: string | null;
+  publishedAt: Date | null;
+}
+
+export interface Feed {
+  title: string | null;
+  /** Entries in feed order, usually newest first. */
+  entries: FeedEntry[];
+}
+
+export interface DigestOptions {
+  /**
+   * Time (ms since the epoch) after which no further entries are scraped. The
+   * entries left over stay unseen, and the subscription stays due so the next
+   * run picks them up.
+   */
+  deadline?: number;
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  // Keep GUIDs such as "12345" as strings
+  parseTagValue: false,
+});
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+}
+
+/** Text of an element, which may carry attributes or repeat. */
+function text(value: unknown): string | null {
+  if (Array.isArray(value)) return value.map(text).find(Boolean) ?? null;
+  if (typeof value === "string") return value.trim() || null;
+  if (value && typeof value === "object" && "#text" in value) return text((value as { "#text": unknown })["#text"]);
+  return null;
+}
+
+function attribute(value: unknown, name: string): string | null {
+  return value && typeof value === "object" ? text((value as Record<string, unknown>)[`@_${name}`]) : null;
+}
+
+/** Atom entries link to the article with rel="alternate", or a link without rel. */
+function atomLink(links: unknown): string | null {
+  const list = asArray(links);
+  const alternate = list.find((link) => {
+    const rel = attribute(link, "rel");
+    return !rel || rel === "alternate";
+  });
+  return attribute(alternate, "href") ?? text(list);
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom feed. Entry links are resolved
+ * against the feed URL, and entries without an http(s) link are dropped.
+ */
+export function parseFeed(xml: string, feedUrl: string): Feed {
+  const doc = parser.parse(xml);
+  let title: string | null;
+  let items: { url: string | null; guid: string | null; title: string | null; date: string | null }[];
+
+  if (doc.rss?.channel) {
+    const channel = doc.rss.channel;
+    title = text(channel.title);
+    items = asArray(channel.item).map((item) => {
+      const i = item as Record<string, unknown>;
+      return { url: text(i.link), guid: text(i.guid), title: text(i.title), date: text(i.pubDate) ?? text(i.date) };
+    });
+  } else if (doc.feed) {
+    title = text(doc.feed.title);
+    items = asArray(doc.feed.entry).map((entry) => {
+      const e = entry as Record<string, unknown>;
+      return { url: atomLink(e.link), guid: text(e.id), title: text(e.title), date: text(e.published) ?? text(e.updated) };
+    });
+  } else if (doc.RDF) {
+    title = text(doc.RDF.channel?.title);
+    items = asArray(doc.RDF.item).map((item) => {
+      const i = item as Record<string, unknown>;
+      return { url: text(i.link), guid: attribute(i, "about"), title: text(i.title), date: text(i.date) };
+    });
+  } else {
+    throw new Error("Not an RSS or Atom feed");
+  }
+
+  const entries: FeedEntry[] = [];
+  for (const item of items) {
+    if (!item.url) continue;
+    let url: string;
+    try {
+      url = new URL(item.url, feedUrl).href;
+    } catch {
+      continue;
+    }
+    if (!isAllowedUrl(url)) continue;
+    entries.push({ guid: item.guid ?? url, url, title: item.title, publishedAt: parseDate(item.date) });
+  }
+
+  return { title, entries };
+}
+
+/** Fetch and parse a feed through the SSRF-safe fetcher. */
+export async function fetchFeed(url: string): Promise<Feed> {
+  const response = await safeFetch(url, {
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; elasticdocument/1.0)",
+      Accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9",
+    },
+    timeoutMs: FEED_TIMEOUT_MS,
+    maxBytes: MAX_FEED_SIZE,
+    allowedContentTypes: FEED_CONTENT_TYPES,
+  });
+  return parseFeed(response.content.toString("utf-8"), response.url);
+}
+
+/** When a subscription with this schedule runs next, counting from `from`. */
+export function nextRunAfter(schedule: string, from: Date): Date {
+  const hours = FEED_SCHEDULES.find((s) => s.value === schedule)?.hours ?? FEED_SCHEDULES[0].hours;
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * GUIDs to remember after a run: the feed's current entries that are seen
+ * (before or in `digested`) first, then older ones. Entries that did not make
+ * it into a digest stay unseen, so they are tried again.
+ */
+export function mergeSeenGuids(feed: Feed, previous: string[], digested: string[] = []): string[] {
+  const seen = new Set([...previous, ...digested]);
+  const current = feed.entries.map((e) => e.guid).filter((guid) => seen.has(guid));
+  return [...new Set([...current, ...previous])].slice(0, MAX_SEEN_GUIDS);
+}
+
+/**
+ * Collect a subscription's new entries into a digest: every entry not seen on
+ * an earlier run is scraped, and the pages are combined into a new processed
+ * result with the subscription's output settings. The result only holds the
+ * extracted markdown; it is summarized when first opened, like any other result.
+ * Returns the result id, or null when the feed has no new entries.
+ */
+export async function runFeedDigest(subscription: FeedSubscription, options: DigestOptions = {}): Promise<string | null> {
+  const feed = await fetchFeed(subscription.url);
+  const now = new Date();
+  const schedule = {
+    title: subscription.title ?? feed.title?.slice(0, 500),
+    lastRunAt: now,
+    nextRunAt: nextRunAfter(subscription.schedule, now),
+    lastError: null,
+  };
+
+  const seen = new Set(subscription.lastSeenGuids);
+  const newEntries = feed.entries.filter((e) => !seen.has(e.guid)).slice(0, MAX_FEED_ENTRIES);
+  if (newEntries.length === 0) {
+    await db
+      .update(feedSubscription)
+      .set({ ...schedule, lastSeenGuids: mergeSeenGuids(feed, subscription.lastSeenGuids) })
+      .where(eq(feedSubscription.id, subscription.id));
+    return null;
+  }
+
+  // Entries stay unseen when the limit is reached, so the next run picks them up
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const [{ value: usageCount }] = await db
+    .select({ value: count() })
+    .from(usageLog)
+    .where(and(eq(usageLog.userId, subscription.userId), gte(usageLog.createdAt, today)));
+  if (usageCount >= USAGE_LIMIT_PER_DAY) {
+    throw new Error(`Daily limit of ${USAGE_LIMIT_PER_DAY} summarized documents reached`);
+  }
+
+  // Entries that fail to scrape stay unseen and are tried again on the next run
+  const pages: { entry: FeedEntry; page: ScrapedUrl }[] = [];
+  let outOfTime = false;
+  for (const [index, entry] of newEntries.entries()) {
+    if (index > 0 && options.deadline !== undefined && Date.now() >= options.deadline) {
+      outOfTime = true;
+      break;
+    }
+    try {
+      pages.push({ entry, page: await scrapeUrl(entry.url, subscription.userId) });
+    } catch {
+      // Not seen yet
+    }
+  }
+  if (pages.length === 0) {
+    throw new Error("None of the new entries could be fetched");
+  }
+  if (outOfTime) schedule.nextRunAt = now;
+
+  let markdown = "";
+  const images: string[] = [];
+  for (const { page } of pages) {
+    markdown += `\n\n--- ${page.fileName} ---\n\n${page.markdown}`;
+    images.push(...page.images.filter((img) => !images.includes(img)));
+  }
+
+  const resultId = await db.transaction(async (tx) => {
+    const [result] = await tx
+      .insert(processedResult)
+      .values({
+        userId: subscription.userId,
+        readingMinutes: subscription.readingMinutes,
+        complexityLevel: subscription.complexityLevel,
+        outputLanguage: subscription.outputLanguage,
+        markdownContent: markdown,
+        extractedImages: images,
+        outputContent: "",
+        outputImages: [],
+      })
+      .returning();
+
+    for (const { entry, page } of pages) {
+      const [doc] = await tx
+        .insert(document)
+        .values({
+          userId: subscription.userId,
+          fileName: page.fileName.slice(0, 500),
+          fileType: page.fileType.slice(0, 100),
+          fileSize: page.fileSize,
+          blobUrl: page.blobUrl,
+          contentHash: page.contentHash,
+          isUrl: true,
+          sourceUrl: entry.url,
+          title: (page.title ?? entry.title)?.slice(0, 500),
+          byline: page.byline?.slice(0, 500),
+          publishedAt: page.publishedAt ?? entry.publishedAt,
+          scrapeBackend: page.scrapeBackend,
+          scrapeAttempts: page.scrapeAttempts,
+        })
+        .returning();
+      await tx.insert(documentToProcessedResult).values({ A: doc.id, B: result.id });
+    }
+
+    await tx.insert(usageLog).values({
+      userId: subscription.userId,
+      action: "feed_digest",
+    });
+
+    const digested = pages.map(({ entry }) => entry.guid);
+    await tx
+      .update(feedSubscription)
+      .set({ ...schedule, lastSeenGuids: mergeSeenGuids(feed, subscription.lastSeenGuids, digested) })
+      .where(eq(feedSubscription.id, subscription.id));
+
+    return result.id;
+  });
+
+  return resultId;
+}
@@ -0,0 +1,99 @@
+import TurndownService from "turndown";
+import { markdownTable } from "./extractors/ooxml";
+
+/** Turndown configured for article content: ATX headings, fenced code and markdown tables. */
+export function createTurndown(): TurndownService {
+  const turndown = new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+    emDelimiter: "*",
+  });
+
+  turndown.addRule("table", {
+    filter: "table",
+    replacement: (_content, node) => {
+      // Turndown's DOM returns NodeLists that are not iterable
+      const rows = Array.from(node.querySelectorAll("tr")).map((row) =>
+        Array.from(row.querySelectorAll("th, td")).map((cell) => turndown.turndown(cell.innerHTML))
+      );
+      const table = markdownTable(rows.filter((row) => row.length > 0));
+      return table ? `\n\n${table}\n\n` : "";
+    },
+  });
+
+  // Preformatted text without an inner <code> still becomes a code block
+  turndown.addRule("preformatted", {
+    filter: (node) => node.nodeName === "PRE" && !node.querySelector("code"),
+    replacement: (_content, node) => `\n\n\`\`\`\n${(node.textContent ?? "").replace(/\n$/, "")}\n\`\`\`\n\n`,
+  });
+
+  turndown.addRule("figcaption", {
+    filter: "figcaption",
+    replacement: (content) => (content.trim() ? `\n\n*${content.trim()}*\n\n` : ""),
+  });
+
+  return turndown;
+}
+
+/**
+ * Lightweight HTML to markdown converter.
+ * Strips scripts, styles, and tags, preserving structure.
+ */
+export function htmlToMarkdown(html: string): string {
+  let text = html;
+
+  // Remove script and style blocks
+  text = text.replace(/<script[\s\S]*?<\/script>/gi, "");
+  text = text.replace(/<style[\s\S]*?<\/style>/gi, "");
+  text = text.replace(/<noscript[\s\S]*?<\/noscript>/gi, "");
+
+  // Convert headings
+  text = text.replace(/<h1[^>]*>([\s\S]*?)<\/h1>/gi, "\n# $1\n");
+  text = text.replace(/<h2[^>]*>([\s\S]*?)<\/h2>/gi, "\n## $1\n");
+  text = text.replace(/<h3[^>]*>([\s\S]*?)<\/h3>/gi, "\n### $1\n");
+  text = text.replace(/<h4[^>]*>([\s\S]*?)<\/h4>/gi, "\n#### $1\n");
+  text = text.replace(/<h5[^>]*>([\s\S]*?)<\/h5>/gi, "\n##### $1\n");
+  text = text.replace(/<h6[^>]*>([\s\S]*?)<\/h6>/gi, "\n###### $1\n");
+
+  // Convert paragraphs and divs to line breaks
+  text = text.replace(/<\/p>/gi, "\n\n");
+  text = text.replace(/<br\s*\/?>/gi, "\n");
+  text = text.replace(/<\/div>/gi, "\n");
+
+  // Convert list items
+  text = text.replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, "- $1\n");
+
+  // Convert links: <a href="url">text</a> → [text](url)
+  text = text.replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, "[$2]($1)");
+
+  // Convert bold/italic
+  text = text.replace(/<(strong|b)[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**");
+  text = text.replace(/<(em|i)[^>]*>([\s\S]*?)<\/\1>/gi, "*$2*");
+
+  // Convert blockquotes
+  text = text.replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, "> $1\n");
+
+  // Convert pre/code blocks
+  text = text.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, "\n```\n$1\n```\n");
+  text = text.replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, "`$1`");
+
+  // Remove all remaining HTML tags
+  text = text.replace(/<[^>]+>/g, "");
+
+  // Decode common HTML entities
+  text = text.replace(/&amp;/g, "&");
+  text = text.replace(/&lt;/g, "<");
+  text = text.replace(/&gt;/g, ">");
+  text = text.replace(/&quot;/g, '"');
+  text = text.replace(/&#39;/g, "'");
+  text = text.replace(/&nbsp;/g, " ");
+  text = text.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+
+  // Clean up whitespace: collapse runs of blank lines
+  text = text.replace(/[ \t]+/g, " ");
+  text = text.replace(/\n[ \t]+/g, "\n");
+  text = text.replace(/\n{3,}/g, "\n\n");
+
+  return text.trim();
+}
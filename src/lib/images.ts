@@ -0,0 +1,162 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { put } from "@vercel/blob";
+import sharp from "sharp";
+
+// Images are stored no larger than this on either side
+const MAX_IMAGE_DIMENSION = 1600;
+const WEBP_QUALITY = 80;
+// Smaller images are icons, bullets and spacers; thinner ones are rules and borders
+const MIN_IMAGE_DIMENSION = 48;
+const MIN_IMAGE_THICKNESS = 8;
+// Images whose difference hashes differ in at most this many of 64 bits look the same
+const MAX_DUPLICATE_DISTANCE = 6;
+// ...and only when their aspect ratios are this close
+const MAX_ASPECT_DIFFERENCE = 0.1;
+
+interface SeenImage {
+  hash: number[];
+  aspect: number;
+  url: string;
+}
+
+interface ProcessedImage {
+  webp: Buffer;
+  hash: number[];
+  aspect: number;
+}
+
+// Images uploaded so far in the current dedupe scope (see withImageDedupe)
+const dedupeScope = new AsyncLocalStorage<SeenImage[]>();
+
+/**
+ * Run `fn` with image deduplication: images uploaded inside it that look like
+ * one uploaded earlier in the same call are not stored again, and resolve to
+ * the earlier image's URL. Used per extracted document, so a logo repeated on
+ * every page is stored and referenced once.
+ */
+export function withImageDedupe<T>(fn: () => Promise<T>): Promise<T> {
+  return dedupeScope.run([], fn);
+}
+
+/**
+ * 64-bit difference hash: the image is shrunk to 9×8 greyscale pixels and each
+ * bit records whether a pixel is brighter than its right-hand neighbour.
+ * Re-encoded or slightly rescaled copies of an image hash (almost) the same.
+ */
+async function differenceHash(image: sharp.Sharp): Promise<number[]> {
+  const pixels = await image.clone().greyscale().resize(9, 8, { fit: "fill" }).raw().toBuffer();
+  const bits: number[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      bits.push(pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+    }
+  }
+  return bits;
+}
+
+function hammingDistance(a: number[], b: number[]): number {
+  return a.reduce((distance, bit, i) => distance + (bit === b[i] ? 0 : 1), 0);
+}
+
+async function storeImage(data: Buffer, contentType: string, userId: string): Promise<string> {
+  const ext = contentType.split("/")[1]?.replace("jpeg", "jpg").replace("svg+xml", "svg") || "png";
+  const blob = await put(`images/${userId}/${crypto.randomUUID()}.${ext}`, data, {
+    access: "public",
+    contentType,
+  });
+  return blob.url;
+}
+
+/**
+ * Downscale an image and convert it to WebP, hashing it when `withHash` is set.
+ * Returns null for tiny decorative images. Throws when sharp cannot read it.
+ */
+async function processImage(
+  data: Buffer,
+  withHash: boolean
+): Promise<ProcessedImage | null> {
+  // Apply the EXIF orientation first, so dimensions and hashes match what is shown
+  const image = sharp(data).rotate();
+  const metadata = await image.metadata();
+  if (!metadata.width || !metadata.height) throw new Error("Image has no dimensions");
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+
+  if (Math.max(width, height) < MIN_IMAGE_DIMENSION || Math.min(width, height) < MIN_IMAGE_THICKNESS) {
+    return null;
+  }
+
+  const hash = withHash ? await differenceHash(image) : [];
+  const webp = await image
+    .resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: WEBP_QUALITY })
+    .toBuffer();
+  return { webp, hash, aspect: width / height };
+}
+
+/**
+ * Process an extracted image and upload it to Vercel Blob, returning its public
+ * URL. Tiny decorative images are dropped (null is returned), others are
+ * downscaled to MAX_IMAGE_DIMENSION and converted to WebP. Inside
+ * withImageDedupe, an image that looks like one already uploaded returns that
+ * image's URL instead. SVGs and formats sharp cannot read are stored unchanged.
+ */
+export async function uploadImage(
+  imageBuffer: Buffer | Uint8Array,
+  contentType: string,
+  userId: string
+): Promise<string | null> {
+  const original = Buffer.from(imageBuffer);
+  if (contentType === "image/svg+xml") {
+    return storeImage(original, contentType, userId);
+  }
+
+  const seen = dedupeScope.getStore();
+  let processed: ProcessedImage | null;
+  try {
+    processed = await processImage(original, !!seen);
+  } catch {
+    return storeImage(original, contentType, userId);
+  }
+  if (!processed) return null;
+
+  const { webp, hash, aspect } = processed;
+  const duplicate = seen?.find(
+    (s) =>
+      Math.abs(s.aspect - aspect) <= MAX_ASPECT_DIFFERENCE * Math.max(s.aspect, aspect) &&
+      hammingDistance(s.hash, hash) <= MAX_DUPLICATE_DISTANCE
+  );
+  if (duplicate) return duplicate.url;
+
+  const url = await storeImage(webp, "image/webp", userId);
+  seen?.push({ hash, aspect, url });
+  return url;
+}
+
+/**
+ * Guess an image content type from a file name inside a document package.
+ */
+export function imageTypeFromPath(path: string): string | null {
+  const ext = path.split(".").pop()?.toLowerCase();
+  switch (ext) {
+    case "png":
+      return "image/png";
+    case "jpg":
+    case "jpeg":
+      return "image/jpeg";
+    case "gif":
+      return "image/gif";
+    case "webp":
+      return "image/webp";
+    case "bmp":
+      return "image/bmp";
+    case "svg":
+      return "image/svg+xml";
+    case "tif":
+    case "tiff":
+      return "image/tiff";
+    default:
+      return null;
+  }
+}
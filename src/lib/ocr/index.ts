@@ -0,0 +1,135 @@
+import { getDocumentProxy } from "unpdf";
+import { joinPages } from "../chunking";
+import { OCR_PROVIDERS, type OcrProviderName } from "../constants";
+import { mistralOcrProvider } from "./mistral";
+import { tesseractOcrProvider } from "./tesseract";
+
+export interface OcrResult {
+  markdown: string;
+  images: string[];
+  /** Per-page markdown, for providers that process documents page by page. */
+  pages?: OcrPage[];
+}
+
+export interface OcrPage {
+  index: number;
+  markdown: string;
+}
+
+/** OCR progress through a document: pages done out of the pages being OCR'd. */
+export interface OcrProgress {
+  page: number;
+  totalPages: number;
+}
+
+export type OcrProgressCallback = (progress: OcrProgress) => void;
+
+export interface OcrFile {
+  buffer: Buffer;
+  contentType: string | null;
+  fileUrl: string;
+}
+
+/**
+ * An OCR backend. Implementations turn an image or scanned document into
+ * markdown, uploading any images they extract to blob storage.
+ */
+export interface OcrProvider {
+  name: OcrProviderName;
+  /** Whether the provider has everything it needs (API keys, etc.) to run. */
+  isConfigured(): boolean;
+  /**
+   * Run OCR, limited to the given 0-based PDF page indexes when provided.
+   * Providers send the document once and call `onProgress` as the pages are done.
+   */
+  process(file: OcrFile, userId: string, pageIndexes?: number[], onProgress?: OcrProgressCallback): Promise<OcrResult>;
+}
+
+const providers: Record<OcrProviderName, OcrProvider> = {
+  mistral: mistralOcrProvider,
+  tesseract: tesseractOcrProvider,
+};
+
+/** Name of the OCR provider selected by the OCR_PROVIDER env var (defaults to Mistral). */
+export function ocrProviderName(): string {
+  return process.env.OCR_PROVIDER || "mistral";
+}
+
+/**
+ * The OCR provider selected by the OCR_PROVIDER env var (defaults to Mistral).
+ */
+export function getOcrProvider(): OcrProvider {
+  const name = ocrProviderName() as OcrProviderName;
+  if (!OCR_PROVIDERS.includes(name)) {
+    throw new Error(`Unknown OCR_PROVIDER "${name}". Expected one of: ${OCR_PROVIDERS.join(", ")}`);
+  }
+  return providers[name];
+}
+
+async function pdfPageCount(buffer: Buffer): Promise<number | null> {
+  if (buffer.subarray(0, 5).toString("latin1") !== "%PDF-") return null;
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    return pdf.numPages;
+  } catch {
+    // Unreadable locally; the provider gets the whole file
+    return null;
+  }
+}
+
+/** OCR the given PDF pages in one provider call, so the document is only sent once. */
+async function processPages(
+  file: OcrFile,
+  userId: string,
+  pageIndexes: number[],
+  onProgress?: OcrProgressCallback
+): Promise<{ pages: OcrPage[]; images: string[] }> {
+  const result = await getOcrProvider().process(file, userId, pageIndexes, onProgress);
+  return { pages: result.pages ?? [{ index: pageIndexes[0], markdown: result.markdown }], images: result.images };
+}
+
+/**
+ * Run the configured OCR provider over a fetched document. For PDFs,
+ * `onProgress` reports the pages done as the provider works through them.
+ */
+export async function runOcr(
+  fileBuffer: Buffer,
+  contentType: string | null,
+  fileUrl: string,
+  userId: string,
+  onProgress?: OcrProgressCallback
+): Promise<OcrResult> {
+  const file = { buffer: fileBuffer, contentType, fileUrl };
+  const pageCount = await pdfPageCount(fileBuffer);
+  if (!pageCount) {
+    return getOcrProvider().process(file, userId);
+  }
+
+  const { pages, images } = await processPages(
+    file,
+    userId,
+    Array.from({ length: pageCount }, (_, i) => i),
+    onProgress
+  );
+  return { markdown: joinPages(pages), images, pages };
+}
+
+/**
+ * Run the configured OCR provider and return per-page markdown. When
+ * `pageIndexes` (0-based) is given, only those pages of a PDF are processed.
+ * For PDFs, `onProgress` reports the pages done as the provider works through them.
+ */
+export async function runOcrPages(
+  fileBuffer: Buffer,
+  contentType: string | null,
+  fileUrl: string,
+  userId: string,
+  pageIndexes?: number[],
+  onProgress?: OcrProgressCallback
+): Promise<{ pages: OcrPage[]; images: string[] }> {
+  if (pageIndexes) {
+    return processPages({ buffer: fileBuffer, contentType, fileUrl }, userId, pageIndexes, onProgress);
+  }
+  const result = await runOcr(fileBuffer, contentType, fileUrl, userId, onProgress);
+  return { pages: result.pages ?? [{ index: 0, markdown: result.markdown }], images: result.images };
+}
@@ -0,0 +1,19 @@
+/**
+ * Work out the MIME type to send to OCR from the response content type, falling back to the file extension.
+ */
+export function detectMimeType(contentType: string | null, url: string): string {
+  if (contentType?.startsWith("text/")) return contentType.split(";")[0].trim();
+  if (contentType?.includes("image/png")) return "image/png";
+  if (contentType?.includes("image/webp")) return "image/webp";
+  if (contentType?.includes("image/gif")) return "image/gif";
+  if (contentType?.includes("application/pdf")) return "application/pdf";
+  if (contentType?.includes("image/jpeg") || contentType?.includes("image/jpg")) return "image/jpeg";
+
+  const ext = url.split("?")[0].split(".").pop()?.toLowerCase();
+  if (ext === "png") return "image/png";
+  if (ext === "webp") return "image/webp";
+  if (ext === "gif") return "image/gif";
+  if (ext === "pdf") return "application/pdf";
+  if (["txt", "md", "csv", "html", "htm", "rtf"].includes(ext ?? "")) return "text/plain";
+  return "image/jpeg";
+}
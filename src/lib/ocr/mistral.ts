@@ -0,0 +1,161 @@
+import { Mistral } from "@mistralai/mistralai";
+import type { OCRRequest } from "@mistralai/mistralai/models/components";
+import { uploadImage } from "../images";
+import type { OcrFile, OcrPage, OcrProgressCallback, OcrProvider, OcrResult } from "./index";
+import { detectMimeType } from "./mime";
+
+const OCR_TIMEOUT_MS = 180_000;
+// PDF pages sent per OCR request; progress is reported after each
+const OCR_BATCH_PAGES = 10;
+
+/** Matches every markdown image that references `id`. */
+function imageReference(id: string): RegExp {
+  return new RegExp(`!\\[[^\\]]*\\]\\(${id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\)`, "g");
+}
+
+/** One OCR request, with the extracted images uploaded and their references in the markdown replaced. */
+async function ocrRequest(
+  mistral: Mistral,
+  document: OCRRequest["document"],
+  userId: string,
+  pageIndexes?: number[]
+): Promise<{ pages: OcrPage[]; images: string[] }> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), OCR_TIMEOUT_MS);
+
+  try {
+    const ocrResponse = await mistral.ocr.process(
+      {
+        model: "mistral-ocr-latest",
+        document,
+        includeImageBase64: true,
+        ...(pageIndexes ? { pages: pageIndexes } : {}),
+      },
+      { signal: controller.signal }
+    );
+
+    // Upload extracted images to Vercel Blob and replace references in each page's markdown
+    const allImageUrls: string[] = [];
+    const pages: OcrPage[] = [];
+
+    for (const page of ocrResponse.pages ?? []) {
+      let pageMarkdown = page.markdown;
+
+      for (const img of page.images ?? []) {
+        if (!img.imageBase64) continue;
+
+        // Mistral may return a data URI (data:image/...;base64,...) or raw base64
+        let raw = img.imageBase64;
+        let contentType = "image/png";
+        const dataUriMatch = raw.match(/^data:([^;]+);base64,(.+)$/);
+        if (dataUriMatch) {
+          contentType = dataUriMatch[1];
+          raw = dataUriMatch[2];
+        }
+
+        const imageBuffer = Buffer.from(raw.trim(), "base64");
+        if (imageBuffer.length === 0) continue;
+
+        const imageUrl = await uploadImage(imageBuffer, contentType, userId);
+        if (imageUrl && !allImageUrls.includes(imageUrl)) allImageUrls.push(imageUrl);
+
+        // Replace the image reference in markdown (Mistral uses ![id](id) format),
+        // or remove it when the image was dropped as decorative
+        if (img.id) {
+          pageMarkdown = imageUrl
+            ? pageMarkdown.replaceAll(`](${img.id})`, `](${imageUrl})`)
+            : pageMarkdown.replace(imageReference(img.id), "");
+        }
+      }
+
+      pages.push({ index: page.index, markdown: pageMarkdown });
+    }
+
+    return { pages, images: allImageUrls };
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new Error("OCR timed out after 180 seconds");
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Run Mistral OCR and return per-page markdown. When `pageIndexes` (0-based) is
+ * given, only those pages of a PDF are processed, OCR_BATCH_PAGES per request
+ * with progress reported after each. A document that needs several requests is
+ * uploaded to Mistral once and deleted afterwards.
+ */
+async function processWithMistral(
+  { buffer: fileBuffer, contentType, fileUrl }: OcrFile,
+  userId: string,
+  pageIndexes?: number[],
+  onProgress?: OcrProgressCallback
+): Promise<OcrResult> {
+  const apiKey = process.env.MISTRAL_API_KEY;
+  if (!apiKey) {
+    throw new Error("MISTRAL_API_KEY not configured");
+  }
+
+  const mistral = new Mistral({ apiKey });
+
+  const mimeType = detectMimeType(contentType, fileUrl);
+  if (mimeType.startsWith("text/")) {
+    throw new Error("Text files are read directly and cannot be sent to OCR");
+  }
+  const isImage = mimeType.startsWith("image/");
+  const batches: (number[] | undefined)[] = [];
+  if (pageIndexes && !isImage) {
+    for (let start = 0; start < pageIndexes.length; start += OCR_BATCH_PAGES) {
+      batches.push(pageIndexes.slice(start, start + OCR_BATCH_PAGES));
+    }
+  } else {
+    batches.push(undefined);
+  }
+
+  let fileId: string | null = null;
+  let document: OCRRequest["document"];
+  if (batches.length > 1) {
+    const fileName = fileUrl.split("?")[0].split("/").pop() || "document.pdf";
+    ({ id: fileId } = await mistral.files.upload(
+      { file: { fileName, content: fileBuffer }, purpose: "ocr" },
+      { timeoutMs: OCR_TIMEOUT_MS }
+    ));
+    document = { type: "file", fileId };
+  } else {
+    // Build a data URI for the API
+    const dataUri = `data:${mimeType};base64,${fileBuffer.toString("base64")}`;
+    document = isImage ? { type: "image_url", imageUrl: dataUri } : { type: "document_url", documentUrl: dataUri };
+  }
+
+  try {
+    const pages: OcrPage[] = [];
+    const images: string[] = [];
+    let pagesDone = 0;
+    for (const batch of batches) {
+      const result = await ocrRequest(mistral, document, userId, batch);
+      pages.push(...result.pages);
+      images.push(...result.images.filter((img) => !images.includes(img)));
+      if (pageIndexes && batch) {
+        pagesDone += batch.length;
+        onProgress?.({ page: pagesDone, totalPages: pageIndexes.length });
+      }
+    }
+
+    return {
+      markdown: pages.map((p) => p.markdown).join("\n\n"),
+      images,
+      pages,
+    };
+  } finally {
+    if (fileId) await mistral.files.delete({ fileId }).catch(() => {});
+  }
+}
+
+export const mistralOcrProvider: OcrProvider = {
+  name: "mistral",
+  isConfigured: () => !!process.env.MISTRAL_API_KEY,
+  process: processWithMistral,
+};
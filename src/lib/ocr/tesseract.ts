@@ -0,0 +1,81 @@
+import { createWorker } from "tesseract.js";
+import { getDocumentProxy, renderPageAsImage } from "unpdf";
+import type { OcrFile, OcrPage, OcrProgressCallback, OcrProvider, OcrResult } from "./index";
+import { detectMimeType } from "./mime";
+
+// Render PDF pages at 2x (≈144 DPI) — enough for Tesseract to read body text reliably
+const PDF_RENDER_SCALE = 2;
+
+const SUPPORTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/bmp", "image/gif"];
+
+/**
+ * Turn Tesseract's plain-text output into markdown paragraphs.
+ */
+function textToMarkdown(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, " ").trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Run Tesseract locally so documents never leave the server. Images are recognized
+ * directly; PDF pages are rendered to images first, reporting progress after
+ * each one. Language data is loaded from TESSERACT_LANG_PATH when set (for
+ * fully offline deployments).
+ */
+async function processWithTesseract(
+  { buffer, contentType, fileUrl }: OcrFile,
+  _userId: string,
+  pageIndexes?: number[],
+  onProgress?: OcrProgressCallback
+): Promise<OcrResult> {
+  const mimeType = detectMimeType(contentType, fileUrl);
+  const isPdf = mimeType === "application/pdf";
+  if (!isPdf && !SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
+    throw new Error(`Local OCR does not support ${mimeType} files`);
+  }
+
+  const langs = (process.env.TESSERACT_LANGS || "eng").split("+");
+  const worker = await createWorker(langs, undefined, {
+    ...(process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH } : {}),
+  });
+
+  try {
+    const pages: OcrPage[] = [];
+
+    if (isPdf) {
+      const pdf = await getDocumentProxy(new Uint8Array(buffer));
+      const indexes = pageIndexes ?? Array.from({ length: pdf.numPages }, (_, i) => i);
+      for (const [position, index] of indexes.entries()) {
+        if (index >= 0 && index < pdf.numPages) {
+          const image = await renderPageAsImage(pdf, index + 1, {
+            canvasImport: () => import("@napi-rs/canvas"),
+            scale: PDF_RENDER_SCALE,
+          });
+          const { data } = await worker.recognize(Buffer.from(image));
+          pages.push({ index, markdown: textToMarkdown(data.text) });
+        }
+        onProgress?.({ page: position + 1, totalPages: indexes.length });
+      }
+    } else {
+      const { data } = await worker.recognize(buffer);
+      pages.push({ index: 0, markdown: textToMarkdown(data.text) });
+    }
+
+    return {
+      markdown: pages.map((p) => p.markdown).join("\n\n"),
+      images: [],
+      pages,
+    };
+  } finally {
+    await worker.terminate();
+  }
+}
+
+export const tesseractOcrProvider: OcrProvider = {
+  name: "tesseract",
+  isConfigured: () => true,
+  process: processWithTesseract,
+};
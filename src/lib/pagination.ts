@@ -0,0 +1,79 @@
+import { parseHTML } from "linkedom";
+
+// Link text of "next page" controls
+const NEXT_TEXT = /^(next|next page|older posts?|weiter|suivant|siguiente|›|»|→|>|>>)$/i;
+// Containers of pagination controls, where a link classed "next" is a page link
+const PAGINATION_CONTAINER = '[class*="pagination"], [class*="pager"], [class*="paging"], [id*="pagination"]';
+// Query parameters commonly used for page numbers
+const PAGE_PARAMS = ["page", "p", "pg", "paged", "pagenum"];
+
+function resolve(href: string | null, base: string): URL | null {
+  if (!href || href.startsWith("#") || href.startsWith("javascript:")) return null;
+  try {
+    return new URL(href, base);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URLs that would be the page after `pageUrl` under common numbering schemes:
+ * `?page=2`, `/page/2/`, `/2/` and `-2` suffixes. A page without a number is page 1.
+ */
+function numberedNextUrls(pageUrl: URL): string[] {
+  const candidates: string[] = [];
+
+  for (const param of PAGE_PARAMS) {
+    const next = new URL(pageUrl);
+    const current = Number(next.searchParams.get(param) || "1");
+    if (!Number.isInteger(current)) continue;
+    next.searchParams.set(param, String(current + 1));
+    candidates.push(next.href);
+  }
+
+  const path = pageUrl.pathname.replace(/\/$/, "");
+  const numbered = path.match(/^(.*?)(\/page\/|\/|-)(\d+)$/);
+  const variants = numbered
+    ? [`${numbered[1]}${numbered[2]}${Number(numbered[3]) + 1}`]
+    : [`${path}/page/2`, `${path}/2`, `${path}-2`];
+  for (const variant of variants) {
+    for (const suffix of ["", "/"]) {
+      const next = new URL(pageUrl);
+      next.pathname = variant + suffix;
+      candidates.push(next.href);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Find the next page of a paginated article: a rel="next" link, a link that
+ * looks like a "Next" control, or a link to the next page number. Only links
+ * on the same host are followed.
+ */
+export function findNextPageUrl(html: string, pageUrl: string): string | null {
+  const { document } = parseHTML(html);
+  const current = new URL(pageUrl);
+  const sameHost = (url: URL | null): url is URL =>
+    !!url && url.host === current.host && url.href.split("#")[0] !== current.href.split("#")[0];
+
+  const relNext = [...document.querySelectorAll('link[rel~="next"], a[rel~="next"]')]
+    .map((el) => resolve(el.getAttribute("href"), pageUrl))
+    .find(sameHost);
+  if (relNext) return relNext.href;
+
+  const links = [...document.querySelectorAll("a[href]")].map((a) => ({
+    url: resolve(a.getAttribute("href"), pageUrl),
+    label: (a.getAttribute("aria-label") || a.textContent || "").replace(/\s+/g, " ").trim(),
+    isPaginationNext: /\bnext\b/i.test(a.getAttribute("class") || "") && !!a.closest(PAGINATION_CONTAINER),
+  }));
+
+  const numbered = new Set(numberedNextUrls(current));
+  const byNumber = links.find((l) => sameHost(l.url) && numbered.has(l.url.href));
+  if (byNumber) return byNumber.url!.href;
+
+  // "Next article" style links lead elsewhere, so labels must match exactly
+  const byLabel = links.find((l) => sameHost(l.url) && (NEXT_TEXT.test(l.label) || l.isPaginationNext));
+  return byLabel ? byLabel.url!.href : null;
+}
@@ -0,0 +1,108 @@
+import { COMPLEXITY_LEVELS, LANGUAGES, MAX_PRESET_NAME_LENGTH, OUTPUT_FORMATS, type OutputFormat } from "./constants";
+import type { summaryPreset } from "./db/schema";
+import { parseFocus } from "./focus";
+
+const VALID_COMPLEXITY_VALUES: string[] = COMPLEXITY_LEVELS.map((l) => l.value);
+const VALID_OUTPUT_FORMATS: string[] = OUTPUT_FORMATS.map((f) => f.value);
+
+/** A saved combination of output settings, as sent to the client. */
+export interface SummaryPreset {
+  id: string;
+  name: string;
+  readingMinutes: number;
+  complexityLevel: string;
+  outputLanguage: string;
+  outputFormats: string[];
+  focus: string | null;
+  focusQuestions: string[];
+  isDefault: boolean;
+}
+
+export type PresetFields = Omit<SummaryPreset, "id">;
+
+/** The fields of a stored preset that are sent to the client. */
+export function toSummaryPreset(row: typeof summaryPreset.$inferSelect): SummaryPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    readingMinutes: row.readingMinutes,
+    complexityLevel: row.complexityLevel,
+    outputLanguage: row.outputLanguage,
+    outputFormats: row.outputFormats,
+    focus: row.focus,
+    focusQuestions: row.focusQuestions,
+    isDefault: row.isDefault,
+  };
+}
+
+/** Request body for saving preset fields through the presets API. */
+export function presetRequestBody(fields: PresetFields): Record<string, unknown> {
+  return {
+    name: fields.name,
+    readingMinutes: fields.readingMinutes,
+    complexity: fields.complexityLevel,
+    language: fields.outputLanguage,
+    outputFormats: fields.outputFormats,
+    focus: fields.focus,
+    focusQuestions: fields.focusQuestions,
+    isDefault: fields.isDefault,
+  };
+}
+
+/**
+ * Validate the output formats of a job or preset. Both formats are written
+ * when none are given; the formatted summary is always included.
+ * Returns the formats in canonical order, or an error message.
+ */
+export function parseOutputFormats(outputFormats: unknown): OutputFormat[] | string {
+  if (outputFormats === undefined || outputFormats === null) return ["formatted", "breadtext"];
+  if (!Array.isArray(outputFormats) || outputFormats.some((f) => !VALID_OUTPUT_FORMATS.includes(f))) {
+    return "Invalid output formats";
+  }
+  if (!outputFormats.includes("formatted")) return "The formatted summary cannot be turned off";
+  return OUTPUT_FORMATS.map((f) => f.value).filter((f) => outputFormats.includes(f));
+}
+
+/**
+ * Validate a preset from a request body. Returns the preset's fields, or an
+ * error message.
+ */
+export function parsePreset(body: Record<string, unknown>): PresetFields | string {
+  const { name, readingMinutes, complexity, language, outputFormats, focus, focusQuestions, isDefault } = body;
+
+  if (typeof name !== "string" || !name.trim() || name.trim().length > MAX_PRESET_NAME_LENGTH) {
+    return `Invalid preset name (up to ${MAX_PRESET_NAME_LENGTH} characters)`;
+  }
+
+  if (typeof readingMinutes !== "number" || readingMinutes < 1 || readingMinutes > 1000) {
+    return "Invalid reading time";
+  }
+
+  if (typeof complexity !== "string" || !VALID_COMPLEXITY_VALUES.includes(complexity)) {
+    return "Invalid complexity level";
+  }
+
+  if (typeof language !== "string" || !(LANGUAGES as readonly string[]).includes(language)) {
+    return "Invalid language";
+  }
+
+  if (isDefault !== undefined && typeof isDefault !== "boolean") {
+    return "Invalid default setting";
+  }
+
+  const formats = parseOutputFormats(outputFormats);
+  if (typeof formats === "string") return formats;
+
+  const summaryFocus = parseFocus(focus, focusQuestions);
+  if (typeof summaryFocus === "string") return summaryFocus;
+
+  return {
+    name: name.trim(),
+    readingMinutes,
+    complexityLevel: complexity,
+    outputLanguage: language,
+    outputFormats: formats,
+    ...summaryFocus,
+    isDefault: isDefault === true,
+  };
+}
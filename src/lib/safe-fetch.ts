@@ -0,0 +1,279 @@
+import { lookup as dnsLookup, promises as dns } from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import type { Readable } from "node:stream";
+import zlib from "node:zlib";
+import { MAX_FILE_SIZE } from "./constants";
+
+const MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+// IPv4-mapped addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges by
+// BlockList itself; listing ::ffff:0:0/96 here would block every IPv4 address
+for (const [network, prefix] of [
+  ["::", 96], // unspecified and IPv4-compatible
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64
+  ["100::", 64], // discard-only
+  ["2001:db8::", 32], // documentation
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export interface SafeFetchOptions {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  /** Maximum decoded response size in bytes (defaults to MAX_FILE_SIZE). */
+  maxBytes?: number;
+  /** Allowed content type prefixes, e.g. "text/" or "application/pdf". */
+  allowedContentTypes?: readonly string[];
+}
+
+export interface SafeFetchResponse {
+  content: Buffer;
+  /** Content type of the final response; application/octet-stream when missing. */
+  contentType: string;
+  /** URL of the final response after redirects. */
+  url: string;
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Reject URLs that are not http(s) or whose host is a local name or a
+ * non-public IP literal. Hostnames are checked again when they are resolved.
+ */
+function assertAllowedUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Only http and https URLs are allowed: ${url.href}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) {
+    throw new Error(`URL points to a local host: ${url.hostname}`);
+  }
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw new Error(`URL points to a private network address: ${url.hostname}`);
+  }
+}
+
+/** Whether an IP address is public (not private, loopback, link-local, ...). */
+export function isPublicAddress(address: string): boolean {
+  return !isBlockedAddress(address);
+}
+
+/**
+ * Quick synchronous check for request validation: http(s) and not an obviously
+ * local host. DNS-based checks happen when the URL is fetched.
+ */
+export function isAllowedUrl(str: string): boolean {
+  try {
+    assertAllowedUrl(new URL(str));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a URL's host and throw if it is local or any of its addresses is
+ * private, loopback or link-local.
+ */
+export async function assertPublicUrl(str: string): Promise<void> {
+  const url = new URL(str);
+  assertAllowedUrl(url);
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) return;
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await dns.lookup(host, { all: true });
+  } catch {
+    throw new Error(`Could not resolve host: ${url.hostname}`);
+  }
+  if (addresses.some((a) => isBlockedAddress(a.address))) {
+    throw new Error(`URL points to a private network address: ${url.hostname}`);
+  }
+}
+
+/**
+ * DNS lookup used for every connection, so the address actually connected to
+ * is the one that was checked (no DNS rebinding between check and connect).
+ */
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, "");
+      return;
+    }
+    if (addresses.length === 0 || addresses.some((a) => isBlockedAddress(a.address))) {
+      callback(
+        Object.assign(new Error(`URL points to a private network address: ${hostname}`), { code: "EBLOCKED" }),
+        ""
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function get(url: URL, headers: Record<string, string>, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, { headers, lookup: safeLookup, signal }, resolve);
+    req.on("error", reject);
+  });
+}
+
+function decodedBody(response: http.IncomingMessage): Readable {
+  switch (response.headers["content-encoding"]?.toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return response.pipe(zlib.createGunzip());
+    case "deflate":
+      return response.pipe(zlib.createInflate());
+    case "br":
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+}
+
+function tooLargeMessage(maxBytes: number, url: string): string {
+  return `Response exceeds ${Math.round(maxBytes / (1024 * 1024))}MB limit: ${url}`;
+}
+
+/** Collect a response body, failing with `tooLarge` once it exceeds `maxBytes`. */
+async function readCapped(body: AsyncIterable<Uint8Array>, maxBytes: number, tooLarge: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body) {
+    size += chunk.length;
+    if (size > maxBytes) throw new Error(tooLarge);
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function* webStreamChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Read the body of a fetch() response from a service that fetches
+ * user-submitted URLs for us (e.g. a scraper backend), with the same size cap
+ * as safeFetch (MAX_FILE_SIZE unless `maxBytes` is given).
+ */
+export async function readCappedBody(response: Response, maxBytes = MAX_FILE_SIZE): Promise<Buffer> {
+  const tooLarge = tooLargeMessage(maxBytes, response.url);
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(tooLarge);
+  }
+  return response.body ? readCapped(webStreamChunks(response.body), maxBytes, tooLarge) : Buffer.alloc(0);
+}
+
+/**
+ * Fetch a user-submitted URL without letting it reach internal services.
+ * Every redirect hop is validated, each connection only goes to public
+ * addresses, and the response is capped in size and limited to the allowed
+ * content types. Errors carry a message suitable for showing to the user.
+ */
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const maxBytes = options.maxBytes ?? MAX_FILE_SIZE;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const headers = { "Accept-Encoding": "gzip, deflate, br", ...options.headers };
+
+  let url = new URL(input);
+  try {
+    for (let hop = 0; ; hop++) {
+      assertAllowedUrl(url);
+      const response = await get(url, headers, controller.signal);
+      const status = response.statusCode ?? 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (hop >= MAX_REDIRECTS) {
+          throw new Error(`Too many redirects: ${input}`);
+        }
+        url = new URL(response.headers.location, url);
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new Error(`Failed to fetch URL (${status}): ${url.href}`);
+      }
+
+      const contentType = response.headers["content-type"] || "application/octet-stream";
+      const mimeType = contentType.split(";")[0].trim().toLowerCase();
+      if (options.allowedContentTypes && !options.allowedContentTypes.some((t) => mimeType.startsWith(t))) {
+        response.destroy();
+        throw new Error(`Unsupported content type "${mimeType}": ${url.href}`);
+      }
+
+      const tooLarge = tooLargeMessage(maxBytes, url.href);
+      if (Number(response.headers["content-length"]) > maxBytes) {
+        response.destroy();
+        throw new Error(tooLarge);
+      }
+
+      const body = decodedBody(response);
+      let content: Buffer;
+      try {
+        content = await readCapped(body, maxBytes, tooLarge);
+      } finally {
+        response.destroy();
+        body.destroy();
+      }
+
+      return { content, contentType, url: url.href };
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timed out fetching URL: ${input}`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,20 @@
+import { extractArticle } from "../extractors/article";
+import { decodeText } from "../extractors/text";
+import type { ScraperBackend } from "./index";
+
+/**
+ * Use the directly fetched HTML, extracting the main article from it.
+ * Cannot see content rendered by JavaScript.
+ */
+export const directScraper: ScraperBackend = {
+  name: "direct",
+  isConfigured: () => true,
+  async scrape(url, fetched) {
+    if (!fetched) {
+      throw new Error("Page could not be fetched directly");
+    }
+
+    const article = extractArticle(decodeText(fetched.content, fetched.contentType), url);
+    return { ...article, source: fetched };
+  },
+};
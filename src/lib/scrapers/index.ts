@@ -0,0 +1,98 @@
+import { SCRAPER_BACKENDS, type ScraperBackendName } from "../constants";
+import { directScraper } from "./direct";
+import { jinaScraper } from "./jina";
+import { rendererScraper } from "./renderer";
+
+// Pages with less text than this are treated as a failed scrape
+const MIN_CONTENT_CHARS = 50;
+
+export interface FetchedPage {
+  content: Buffer;
+  contentType: string;
+}
+
+export interface ScrapedPage {
+  markdown: string;
+  images: string[];
+  title?: string | null;
+  byline?: string | null;
+  publishedAt?: Date | null;
+  /** What to keep in blob storage for reference (rendered HTML, markdown, ...). */
+  source: { content: Buffer | string; contentType: string };
+}
+
+export interface ScrapeAttempt {
+  backend: ScraperBackendName;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * A way of turning a web page into markdown. `fetched` is the page as fetched
+ * directly (null if that failed), for backends that work on the raw HTML.
+ */
+export interface ScraperBackend {
+  name: ScraperBackendName;
+  /** Whether the backend has everything it needs (endpoint URL, etc.) to run. */
+  isConfigured(): boolean;
+  scrape(url: string, fetched: FetchedPage | null): Promise<ScrapedPage>;
+}
+
+const backends: Record<ScraperBackendName, ScraperBackend> = {
+  renderer: rendererScraper,
+  jina: jinaScraper,
+  direct: directScraper,
+};
+
+/**
+ * The scraper backends to try in order, from the comma-separated
+ * SCRAPER_BACKENDS env var (defaults to Jina Reader, then direct fetch).
+ */
+export function getScraperChain(): ScraperBackend[] {
+  const names = (process.env.SCRAPER_BACKENDS || "jina,direct")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean) as ScraperBackendName[];
+
+  for (const name of names) {
+    if (!SCRAPER_BACKENDS.includes(name)) {
+      throw new Error(`Unknown scraper backend "${name}". Expected one of: ${SCRAPER_BACKENDS.join(", ")}`);
+    }
+  }
+  return names.map((name) => backends[name]);
+}
+
+/**
+ * Try each configured backend in order until one returns meaningful content.
+ * Every attempt is recorded; if all fail, the error lists what each backend hit.
+ */
+export async function runScraperChain(
+  url: string,
+  fetched: FetchedPage | null
+): Promise<{ page: ScrapedPage; backend: ScraperBackendName; attempts: ScrapeAttempt[] }> {
+  const attempts: ScrapeAttempt[] = [];
+
+  for (const backend of getScraperChain()) {
+    if (!backend.isConfigured()) {
+      attempts.push({ backend: backend.name, ok: false, error: "Not configured", durationMs: 0 });
+      continue;
+    }
+
+    const start = Date.now();
+    try {
+      const page = await backend.scrape(url, fetched);
+      if (page.markdown.replace(/\s+/g, " ").trim().length < MIN_CONTENT_CHARS) {
+        throw new Error("No content returned");
+      }
+      attempts.push({ backend: backend.name, ok: true, durationMs: Date.now() - start });
+      return { page, backend: backend.name, attempts };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Unknown error";
+      attempts.push({ backend: backend.name, ok: false, error, durationMs: Date.now() - start });
+    }
+  }
+
+  const summary = attempts.map((a) => `${a.backend}: ${a.error}`).join("; ");
+  throw new Error(attempts.length > 0 ? `All scrapers failed (${summary})` : "No scraper backends configured");
+}
@@ -0,0 +1,85 @@
+import { assertPublicUrl, readCappedBody } from "../safe-fetch";
+import type { ScraperBackend } from "./index";
+
+const JINA_TIMEOUT_MS = 60_000;
+// Wait and retry once when rate limited, if the server asks for at most this long
+const MAX_RETRY_AFTER_SECONDS = 10;
+
+function jinaHeader(text: string): string {
+  return text.split(/^Markdown Content:$/m)[0].slice(0, 2000);
+}
+
+/**
+ * Read the title and publish date from the header Jina Reader puts above the
+ * markdown ("Title: ...", "Published Time: ...").
+ */
+function jinaMetadata(text: string): { title: string | null; publishedAt: Date | null } {
+  const header = jinaHeader(text);
+  const title = header.match(/^Title:[ \t]*(.+)$/m)?.[1].trim() || null;
+  const published = header.match(/^Published Time:[ \t]*(.+)$/m)?.[1].trim();
+  const publishedAt = published ? new Date(published) : null;
+  return { title, publishedAt: publishedAt && !Number.isNaN(publishedAt.getTime()) ? publishedAt : null };
+}
+
+async function requestReader(url: string, signal: AbortSignal): Promise<Response> {
+  const endpoint = process.env.JINA_READER_URL || "https://r.jina.ai/";
+  return fetch(`${endpoint.replace(/\/?$/, "/")}${url}`, {
+    headers: {
+      Accept: "text/markdown",
+      "X-Return-Format": "markdown",
+      "X-No-Cache": "true",
+      ...(process.env.JINA_API_KEY ? { Authorization: `Bearer ${process.env.JINA_API_KEY}` } : {}),
+    },
+    signal,
+  });
+}
+
+/**
+ * Jina Reader, or any compatible endpoint (JINA_READER_URL), which renders
+ * JavaScript and returns markdown. JINA_API_KEY raises the rate limit. The
+ * reader follows redirects itself, so the source URL it reports ("URL Source:")
+ * is checked like our own fetches.
+ */
+export const jinaScraper: ScraperBackend = {
+  name: "jina",
+  isConfigured: () => true,
+  async scrape(url) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), JINA_TIMEOUT_MS);
+
+    try {
+      let response = await requestReader(url, controller.signal);
+
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get("retry-after"));
+        if (!(retryAfter > 0 && retryAfter <= MAX_RETRY_AFTER_SECONDS)) {
+          throw new Error("Rate limited");
+        }
+        await new Promise((r) => setTimeout(r, retryAfter * 1000));
+        response = await requestReader(url, controller.signal);
+      }
+
+      if (!response.ok) {
+        throw new Error(response.status === 429 ? "Rate limited" : `Reader returned ${response.status}`);
+      }
+
+      const markdown = (await readCappedBody(response)).toString("utf-8");
+      const source = jinaHeader(markdown).match(/^URL Source:[ \t]*(\S+)/m)?.[1];
+      if (source) await assertPublicUrl(source);
+
+      return {
+        markdown,
+        images: [],
+        ...jinaMetadata(markdown),
+        source: { content: markdown, contentType: "text/markdown" },
+      };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new Error("Reader timed out");
+      }
+      throw err;
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+};
@@ -0,0 +1,55 @@
+import { extractArticle } from "../extractors/article";
+import { assertPublicUrl, isPublicAddress, readCappedBody } from "../safe-fetch";
+import type { ScraperBackend } from "./index";
+
+const RENDER_TIMEOUT_MS = 60_000;
+
+/**
+ * A self-hosted headless browser service (browserless-compatible `/content`
+ * endpoint): POST {"url"} to RENDERER_URL and get back the rendered HTML.
+ * The endpoint is operator-configured, so it may live on a private network.
+ * The renderer follows redirects itself, so the final URL and address it
+ * reports (X-Response-URL, X-Response-IP) are checked like our own fetches.
+ */
+export const rendererScraper: ScraperBackend = {
+  name: "renderer",
+  isConfigured: () => !!process.env.RENDERER_URL,
+  async scrape(url) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), RENDER_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(process.env.RENDERER_URL!, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(process.env.RENDERER_TOKEN ? { Authorization: `Bearer ${process.env.RENDERER_TOKEN}` } : {}),
+        },
+        body: JSON.stringify({ url }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Renderer returned ${response.status}`);
+      }
+
+      const finalUrl = response.headers.get("x-response-url");
+      if (finalUrl) await assertPublicUrl(finalUrl);
+      const address = response.headers.get("x-response-ip");
+      if (address && !isPublicAddress(address)) {
+        throw new Error(`URL points to a private network address: ${finalUrl ?? url}`);
+      }
+
+      const html = (await readCappedBody(response)).toString("utf-8");
+      const article = extractArticle(html, url);
+      return { ...article, source: { content: html, contentType: "text/html" } };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new Error("Rendering timed out");
+      }
+      throw err;
+    } finally {
+      clearTimeout(timeout);
+    }
+  },
+};
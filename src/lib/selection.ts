@@ -0,0 +1,145 @@
+// Selections are typed by users; keep them to a sensible size
+const MAX_PAGE_NUMBER = 100_000;
+export const MAX_PAGE_RANGE_PARTS = 100;
+export const MAX_SELECTED_HEADINGS = 20;
+export const MAX_HEADING_LENGTH = 200;
+
+/** An inclusive range of 1-based page numbers. */
+export interface PageRange {
+  from: number;
+  to: number;
+}
+
+/** The part of a document to include in a result, stored on its join row. */
+export interface DocumentSelection {
+  pageRange: string | null;
+  headings: string[] | null;
+}
+
+/** Sort ranges and coalesce the ones that overlap or touch, e.g. 1-3 and 4-6 into 1-6. */
+function mergeRanges(ranges: PageRange[]): PageRange[] {
+  const merged: PageRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.from - b.from)) {
+    const last = merged[merged.length - 1];
+    if (last && range.from <= last.to + 1) last.to = Math.max(last.to, range.to);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+/**
+ * Parse a page range such as "3-5, 8" into sorted, non-overlapping ranges of
+ * 1-based page numbers. Throws an error describing the problem when the value
+ * is not a valid range.
+ */
+export function parsePageRange(value: string): PageRange[] {
+  const parts = value.split(",");
+  if (parts.length > MAX_PAGE_RANGE_PARTS) {
+    throw new Error(`Page range has more than ${MAX_PAGE_RANGE_PARTS} parts`);
+  }
+  const ranges: PageRange[] = [];
+  for (const part of parts) {
+    const match = part.trim().match(/^(\d+)(?:\s*[-–]\s*(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid page range "${value}". Use page numbers and ranges like 3-5, 8`);
+    }
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (from < 1 || to < from || to > MAX_PAGE_NUMBER) {
+      throw new Error(`Invalid page range "${part.trim()}"`);
+    }
+    ranges.push({ from, to });
+  }
+  return mergeRanges(ranges);
+}
+
+/** Format 0-based page indexes as 1-based page ranges, e.g. "3-5, 8". */
+export function formatPageIndexes(indexes: number[]): string {
+  const sorted = [...new Set(indexes)].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    parts.push(sorted[i] === start ? `${start + 1}` : `${start + 1}-${sorted[i] + 1}`);
+  }
+  return parts.join(", ");
+}
+
+/** Normalize a page range for storage, e.g. "1,2,3, 8" becomes "1-3, 8". Throws when invalid. */
+export function normalizePageRange(value: string): string {
+  return parsePageRange(value)
+    .map(({ from, to }) => (from === to ? `${from}` : `${from}-${to}`))
+    .join(", ");
+}
+
+/** The 0-based indexes of the selected pages that exist in a document of `totalPages` pages. */
+export function selectedPageIndexes(ranges: PageRange[], totalPages: number): number[] {
+  const indexes = new Set<number>();
+  for (const { from, to } of ranges) {
+    for (let page = from; page <= Math.min(to, totalPages); page++) indexes.add(page - 1);
+  }
+  return [...indexes].sort((a, b) => a - b);
+}
+
+function normalizeHeading(text: string): string {
+  return text
+    .replace(/[*_`#]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/** Match `phrase` only where it is not part of a longer word or number. */
+function wholeWordPattern(phrase: string): RegExp {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "u");
+}
+
+/**
+ * Keep only the markdown sections under the selected headings, each with its
+ * subsections. A heading matches when its text contains a selected heading as
+ * whole words, ignoring case and inline formatting, so "Chapter 3" selects
+ * "Chapter 3: Results" but not "Chapter 30". `matched` lists the selected
+ * headings that were found.
+ */
+export function selectSections(markdown: string, headings: string[]): { markdown: string; matched: string[] } {
+  const wanted = headings
+    .map((h) => ({ heading: h, normalized: normalizeHeading(h) }))
+    .filter((h) => h.normalized)
+    .map((h) => ({ heading: h.heading, pattern: wholeWordPattern(h.normalized) }));
+  const matched = new Set<string>();
+  const kept: string[] = [];
+  // Level of the selected heading whose section we are in, or null outside selected sections
+  let selectedLevel: number | null = null;
+  let inCodeBlock = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inCodeBlock = !inCodeBlock;
+    const heading = inCodeBlock ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+
+    if (heading) {
+      const level = heading[1].length;
+      if (selectedLevel !== null && level <= selectedLevel) selectedLevel = null;
+      if (selectedLevel === null) {
+        const text = normalizeHeading(heading[2]);
+        const match = wanted.find((w) => w.pattern.test(text));
+        if (match) {
+          matched.add(match.heading);
+          selectedLevel = level;
+        }
+      }
+    }
+
+    if (selectedLevel !== null) kept.push(line);
+  }
+
+  return { markdown: kept.join("\n").trim(), matched: [...matched] };
+}
+
+/** Short description of a selection for document separators, e.g. "pages 3-5". */
+export function describeSelection(selection: { pagesIncluded?: string | null; headings?: string[] | null }): string {
+  const parts: string[] = [];
+  if (selection.pagesIncluded) parts.push(`pages ${selection.pagesIncluded}`);
+  if (selection.headings?.length) parts.push(`sections: ${selection.headings.join("; ")}`);
+  return parts.join(", ");
+}
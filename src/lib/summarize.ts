@@ -1,13 +1,36 @@
-import Anthropic from "@anthropic-ai/sdk";
+import { countWords, splitIntoChunks } from "./chunking";
+import { buildFocusInstructions } from "./focus";
+import type { Summarizer } from "./summarizers";
+import { WORDS_PER_MINUTE, countReadableWords } from "./word-count";
 
-const anthropic = new Anthropic();
+// Output token limit for each summary
+const MAX_OUTPUT_TOKENS = 16000;
+// Word budget of a partial summary is never below this, however small its share
+const MIN_PART_WORDS = 80;
+// Rounds of partial summaries before giving up on fitting the model's input
+const MAX_CONDENSE_ROUNDS = 3;
+// Reply for a part of a long source with nothing to summarize
+const EMPTY_PART = "(no content)";
+// Summaries this far over the word budget are condensed
+const WORD_BUDGET_TOLERANCE = 0.1;
 
-interface SummarizeParams {
+export interface SummarizeParams {
   markdown: string;
   images: string[];
   readingMinutes: number;
   complexity: string;
   language: string;
+  /** Set when `markdown` holds this many partial summaries of a longer source, to be merged. */
+  mergedParts?: number;
+  /** What the reader wants the summary to concentrate on. */
+  focus?: string | null;
+  focusQuestions?: string[];
+}
+
+/** Progress through the partial summaries of a long source. */
+export interface CondenseProgress {
+  part: number;
+  totalParts: number;
 }
 
 function getComplexityInstruction(complexity: string): string {
@@ -24,12 +47,11 @@ function getComplexityInstruction(complexity: string): string {
 }
 
 function buildSharedConstraints(params: SummarizeParams): string {
-  const wordsPerMinute = 230;
-  const targetWords = params.readingMinutes * wordsPerMinute;
+  const targetWords = params.readingMinutes * WORDS_PER_MINUTE;
   const complexityInstruction = getComplexityInstruction(params.complexity);
 
   return `CRITICAL CONSTRAINTS:
-- Your output must NEVER exceed ${targetWords} words (approximately ${params.readingMinutes} minute(s) of reading at ${wordsPerMinute} WPM). This is a hard limit.
+- Your output must NEVER exceed ${targetWords} words (approximately ${params.readingMinutes} minute(s) of reading at ${WORDS_PER_MINUTE} WPM). This is a hard limit.
 - If the original document is already short enough to fit within the time budget, keep your output at approximately the same length — do not pad, expand, or add filler.
 - Write the entire output in ${params.language}.
 - NEVER fabricate, infer, or hallucinate information that is not explicitly present in the source content below. Every fact, claim, and detail in your output must come directly from the provided source material.
@@ -50,6 +72,34 @@ CONTENT PRIORITIES:
 - When multiple documents are combined, organize by topic rather than by source document. Do not label sections by source filename.`;
 }
 
+function buildMergeInstructions(params: SummarizeParams): string {
+  if (!params.mergedParts) return "";
+  return `\n\nMERGING PARTS:
+The source content below is not the original document. It is ${params.mergedParts} partial summaries of consecutive parts of a longer source, in order, each headed "--- Part N of ${params.mergedParts} ---". Merge them into one summary of the whole source: combine points that continue across parts, remove repetition, and keep the image references they contain.`;
+}
+
+/**
+ * Prompt for the partial summary of one part of a source too long to
+ * summarize at once. Partial summaries keep detail for the final merge, so
+ * they ignore the complexity level.
+ */
+function buildPartPrompt(params: SummarizeParams, part: string, index: number, totalParts: number, targetWords: number): string {
+  return `You are an expert document summarizer. The following content is part ${index + 1} of ${totalParts} of a source that is too long to summarize at once. Summarize this part; the partial summaries will be merged into one summary afterwards.
+
+CONSTRAINTS:
+- Your output must NEVER exceed ${targetWords} words.
+- Write the entire output in ${params.language}.
+- NEVER fabricate, infer, or hallucinate information that is not explicitly present in this part.
+- Preserve key arguments, conclusions, data points, statistics, names and dates, so the final summary can use them.
+- Use markdown headings and bullet points where they help.
+- The source contains embedded images as markdown image syntax (![description](url)). Preserve ALL of them, using the exact same syntax and URL, next to the points they illustrate.
+- If this part contains nothing meaningful (e.g. garbled OCR output, only whitespace/separators), respond ONLY with: ${EMPTY_PART}${buildFocusInstructions(params)}
+
+SOURCE CONTENT:
+
+${part}`;
+}
+
 export function buildFormattedPrompt(params: SummarizeParams): string {
   const shared = buildSharedConstraints(params);
 
@@ -71,7 +121,8 @@ FORMAT INSTRUCTIONS:
 - Use numbered lists only when order matters (steps, rankings, chronological events).
 - Preserve any tables from the source in markdown table format if they contain important data. Simplify large tables by keeping only the most relevant rows/columns.
 - Preserve code blocks and their language annotations if present in the source.
-- Keep direct quotes only if they are essential — attribute them clearly.${imageInstructions}
+- If the source is a slide deck (sections headed "Slide N"), organize the summary by the deck's themes rather than slide by slide. Use speaker notes to clarify the slides, not as separate sections.
+- Keep direct quotes only if they are essential — attribute them clearly.${imageInstructions}${buildMergeInstructions(params)}${buildFocusInstructions(params)}
 
 SOURCE CONTENT:
 
@@ -95,7 +146,7 @@ FORMAT INSTRUCTIONS:
 - Use only plain sentences organized into paragraphs separated by blank lines.
 - Use clear topic transitions between paragraphs so the reader can follow the logical flow without visual formatting cues.
 - Optimize for one-word-at-a-time reading: prefer shorter sentences, avoid parenthetical asides, and keep clause structures simple.
-- If the source content contains embedded images (![description](url)), preserve ALL of them in your output. Place each image on its own line between paragraphs, using the exact same markdown syntax and URL from the source. Do not omit images.${imageInstructions}
+- If the source content contains embedded images (![description](url)), preserve ALL of them in your output. Place each image on its own line between paragraphs, using the exact same markdown syntax and URL from the source. Do not omit images.${imageInstructions}${buildMergeInstructions(params)}${buildFocusInstructions(params)}
 
 SOURCE CONTENT:
 
@@ -103,45 +154,118 @@ ${params.markdown}`;
 }
 
 /**
- * Stream the formatted summary from Claude. Yields text chunks as they arrive.
+ * Stream the formatted summary from the configured model. Yields text chunks as they arrive.
+ */
+export function streamFormattedSummary(params: SummarizeParams, { provider, model }: Summarizer): AsyncGenerator<string> {
+  return provider.stream({ prompt: buildFormattedPrompt(params), model, maxTokens: MAX_OUTPUT_TOKENS });
+}
+
+/**
+ * Stream the breadtext summary from the configured model. Yields text chunks as they arrive.
  */
-export async function* streamFormattedSummary(params: SummarizeParams): AsyncGenerator<string> {
-  const prompt = buildFormattedPrompt(params);
-
-  const stream = anthropic.messages.stream({
-    model: "claude-sonnet-4-5-20250929",
-    max_tokens: 16000,
-    messages: [{ role: "user", content: prompt }],
-  });
-
-  for await (const event of stream) {
-    if (
-      event.type === "content_block_delta" &&
-      event.delta.type === "text_delta"
-    ) {
-      yield event.delta.text;
+export function streamBreadtextSummary(params: SummarizeParams, { provider, model }: Summarizer): AsyncGenerator<string> {
+  return provider.stream({ prompt: buildBreadtextPrompt(params), model, maxTokens: MAX_OUTPUT_TOKENS });
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) text += chunk;
+  return text.trim();
+}
+
+/**
+ * Map stage for sources longer than the summarizer's input limit: split the
+ * source at documents, headings and page breaks, and summarize each part with
+ * its share of the reading-time budget. Returns params whose markdown holds
+ * the partial summaries, for the formatted and breadtext prompts to merge, or
+ * the params unchanged when the source fits in one request.
+ */
+export async function condenseSource(
+  params: SummarizeParams,
+  { provider, model, maxInputWords }: Summarizer,
+  options: { onProgress?: (progress: CondenseProgress) => void; signal?: AbortSignal } = {}
+): Promise<SummarizeParams> {
+  let markdown = params.markdown;
+  let mergedParts: number | null = null;
+
+  // Partial summaries of partial summaries, if the first round is still too long to merge
+  for (let round = 0; round < MAX_CONDENSE_ROUNDS && countWords(markdown) > maxInputWords; round++) {
+    const totalWords = countWords(markdown);
+    // The parts share the reading-time budget, and together must fit in the merge request
+    const budget = Math.min(params.readingMinutes * WORDS_PER_MINUTE, Math.floor(maxInputWords * 0.8));
+    const chunks = splitIntoChunks(markdown, maxInputWords);
+    const summaries: string[] = [];
+
+    for (const [index, chunk] of chunks.entries()) {
+      if (options.signal?.aborted) throw new Error("Summarization aborted");
+      const targetWords = Math.max(MIN_PART_WORDS, Math.round((budget * chunk.words) / totalWords));
+      const prompt = buildPartPrompt(params, chunk.markdown, index, chunks.length, targetWords);
+      const summary = await collect(provider.stream({ prompt, model, maxTokens: MAX_OUTPUT_TOKENS }));
+      if (summary && summary !== EMPTY_PART) summaries.push(summary);
+      options.onProgress?.({ part: index + 1, totalParts: chunks.length });
     }
+
+    mergedParts = summaries.length;
+    markdown = summaries.map((summary, i) => `--- Part ${i + 1} of ${summaries.length} ---\n\n${summary}`).join("\n\n");
   }
+
+  return mergedParts === null ? params : { ...params, markdown, mergedParts };
 }
 
 /**
- * Stream the breadtext summary from Claude. Yields text chunks as they arrive.
+ * Prompt to shorten a summary that came out over its word budget, keeping the
+ * format of the summary style.
  */
-export async function* streamBreadtextSummary(params: SummarizeParams): AsyncGenerator<string> {
-  const prompt = buildBreadtextPrompt(params);
-
-  const stream = anthropic.messages.stream({
-    model: "claude-sonnet-4-5-20250929",
-    max_tokens: 16000,
-    messages: [{ role: "user", content: prompt }],
-  });
-
-  for await (const event of stream) {
-    if (
-      event.type === "content_block_delta" &&
-      event.delta.type === "text_delta"
-    ) {
-      yield event.delta.text;
-    }
+function buildCondensePrompt(
+  text: string,
+  words: number,
+  targetWords: number,
+  style: "formatted" | "breadtext",
+  params: SummarizeParams
+): string {
+  const format =
+    style === "formatted"
+      ? "Keep the markdown structure: headings, lists and tables."
+      : "Keep it continuous prose in paragraphs, with no markdown formatting.";
+
+  return `You are an expert editor. The following summary is ${words} words long, but it must NEVER exceed ${targetWords} words (${params.readingMinutes} minute(s) of reading at ${WORDS_PER_MINUTE} WPM). Shorten it to at most ${targetWords} words.
+
+- ${format}
+- Keep the most important points; cut examples, repetition and less important details first.
+- Keep the language (${params.language}) and tone, and do not add any information.
+- Keep every image reference (![description](url)) exactly as written.
+- Respond ONLY with the shortened summary.${buildFocusInstructions(params)}
+
+SOURCE CONTENT:
+
+${text}`;
+}
+
+/**
+ * Check a generated summary against the reading-time word budget, counting
+ * only readable words. A summary over budget by more than
+ * WORD_BUDGET_TOLERANCE gets one condense pass; the shorter version is kept
+ * unless it came back empty or no shorter.
+ */
+export async function fitWordBudget(
+  text: string,
+  style: "formatted" | "breadtext",
+  params: SummarizeParams,
+  { provider, model }: Summarizer,
+  options: { onCondense?: (words: number, targetWords: number) => void } = {}
+): Promise<{ text: string; words: number; condensed: boolean }> {
+  const targetWords = params.readingMinutes * WORDS_PER_MINUTE;
+  const words = countReadableWords(text);
+  if (words <= targetWords * (1 + WORD_BUDGET_TOLERANCE)) {
+    return { text, words, condensed: false };
+  }
+
+  options.onCondense?.(words, targetWords);
+  const prompt = buildCondensePrompt(text, words, targetWords, style, params);
+  const condensed = await collect(provider.stream({ prompt, model, maxTokens: MAX_OUTPUT_TOKENS }));
+  const condensedWords = countReadableWords(condensed);
+  if (!condensed || condensedWords >= words) {
+    return { text, words, condensed: false };
   }
+  return { text: condensed, words: condensedWords, condensed: true };
 }
@@ -0,0 +1,27 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { SummarizerProvider } from "./index";
+
+let client: Anthropic | null = null;
+
+/** Claude via the Anthropic API (ANTHROPIC_API_KEY). */
+export const anthropicSummarizer: SummarizerProvider = {
+  name: "anthropic",
+  defaultModel: "claude-sonnet-4-5-20250929",
+  // About 135k tokens, leaving room in the 200k context for the prompt and output
+  maxInputWords: 100_000,
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+  async *stream({ prompt, model, maxTokens }) {
+    client ??= new Anthropic();
+    const stream = client.messages.stream({
+      model,
+      max_tokens: maxTokens,
+      messages: [{ role: "user", content: prompt }],
+    });
+
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield event.delta.text;
+      }
+    }
+  },
+};
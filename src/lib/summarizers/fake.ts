@@ -0,0 +1,26 @@
+import type { SummarizerProvider } from "./index";
+
+// The fake summary is the start of the source content, up to this many words
+const FAKE_SUMMARY_WORDS = 200;
+
+/**
+ * A deterministic stand-in for a language model, for local development
+ * without an API key: it echoes the beginning of the source content from the
+ * prompt, one word at a time.
+ */
+export const fakeSummarizer: SummarizerProvider = {
+  name: "fake",
+  defaultModel: "echo",
+  // Small, so summarizing long sources in parts can be tried on modest documents
+  maxInputWords: 2_000,
+  isConfigured: () => true,
+  async *stream({ prompt }) {
+    const source = prompt.split(/^SOURCE CONTENT:$/m).pop()!.trim();
+    const words = source.split(/(\s+)/).filter(Boolean);
+    let count = 0;
+    for (const word of words) {
+      if (/\S/.test(word) && ++count > FAKE_SUMMARY_WORDS) break;
+      yield word;
+    }
+  },
+};
@@ -0,0 +1,58 @@
+import { SUMMARIZER_PROVIDERS, type SummarizerProviderName } from "../constants";
+import { anthropicSummarizer } from "./anthropic";
+import { fakeSummarizer } from "./fake";
+import { openaiSummarizer } from "./openai";
+
+export interface SummarizerRequest {
+  prompt: string;
+  model: string;
+  maxTokens: number;
+}
+
+/**
+ * A language model backend for summarization. Implementations stream the
+ * model's reply to a single user prompt as text deltas.
+ */
+export interface SummarizerProvider {
+  name: SummarizerProviderName;
+  /** Model used when SUMMARIZER_MODEL is not set. */
+  defaultModel: string;
+  /** Source words sent in one request when SUMMARIZER_MAX_INPUT_WORDS is not set; longer sources are summarized in parts. */
+  maxInputWords: number;
+  /** Whether the provider has everything it needs (API keys, etc.) to run. */
+  isConfigured(): boolean;
+  stream(request: SummarizerRequest): AsyncGenerator<string>;
+}
+
+/** The provider and model to summarize with, as recorded on each result. */
+export interface Summarizer {
+  provider: SummarizerProvider;
+  model: string;
+  maxInputWords: number;
+}
+
+const providers: Record<SummarizerProviderName, SummarizerProvider> = {
+  anthropic: anthropicSummarizer,
+  openai: openaiSummarizer,
+  fake: fakeSummarizer,
+};
+
+/**
+ * The summarizer selected by the SUMMARIZER_PROVIDER env var (defaults to
+ * Anthropic) with the model from SUMMARIZER_MODEL and the input limit from
+ * SUMMARIZER_MAX_INPUT_WORDS, or the provider's defaults.
+ */
+export function getSummarizer(): Summarizer {
+  const name = (process.env.SUMMARIZER_PROVIDER || "anthropic") as SummarizerProviderName;
+  if (!SUMMARIZER_PROVIDERS.includes(name)) {
+    throw new Error(
+      `Unknown SUMMARIZER_PROVIDER "${name}". Expected one of: ${SUMMARIZER_PROVIDERS.join(", ")}`
+    );
+  }
+  const provider = providers[name];
+  return {
+    provider,
+    model: process.env.SUMMARIZER_MODEL || provider.defaultModel,
+    maxInputWords: Number(process.env.SUMMARIZER_MAX_INPUT_WORDS) || provider.maxInputWords,
+  };
+}
@@ -0,0 +1,74 @@
+import type { SummarizerProvider } from "./index";
+
+// Same limit as the Anthropic SDK's default request timeout
+const REQUEST_TIMEOUT_MS = 600_000;
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  error?: { message?: string };
+}
+
+/** Read the `data:` payloads of a server-sent event stream. */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        if (line.startsWith("data:")) yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  if (buffer.startsWith("data:")) yield buffer.slice(5).trim();
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint: OpenAI itself, or a local
+ * llama.cpp or vLLM server. OPENAI_BASE_URL is the API root (ending in /v1);
+ * OPENAI_API_KEY is optional for local servers.
+ */
+export const openaiSummarizer: SummarizerProvider = {
+  name: "openai",
+  defaultModel: "gpt-4o-mini",
+  // Local models often have small contexts; raise with SUMMARIZER_MAX_INPUT_WORDS
+  maxInputWords: 12_000,
+  isConfigured: () => !!(process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY),
+  async *stream({ prompt, model, maxTokens }) {
+    const baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        stream: true,
+        messages: [{ role: "user", content: prompt }],
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = (await response.text().catch(() => "")).slice(0, 200);
+      throw new Error(`Summarizer endpoint returned ${response.status}${detail ? `: ${detail}` : ""}`);
+    }
+
+    for await (const data of readEvents(response.body)) {
+      if (!data || data === "[DONE]") continue;
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      if (chunk.error) throw new Error(chunk.error.message || "Summarizer endpoint returned an error");
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  },
+};
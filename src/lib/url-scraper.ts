@@ -1,174 +1,282 @@
 import { put } from "@vercel/blob";
+import { cacheExtraction, getCachedExtraction, hashContent } from "./extraction-cache";
+import { extractFile } from "./extractors";
+import { decodeText } from "./extractors/text";
+import { uploadImage, withImageDedupe } from "./images";
+import { MAX_PAGINATION_PAGES, type ScraperBackendName } from "./constants";
+import { findNextPageUrl } from "./pagination";
+import { runScraperChain, type FetchedPage, type ScrapeAttempt } from "./scrapers";
+import { assertPublicUrl, safeFetch } from "./safe-fetch";
+
+// Content types accepted from user-submitted URLs; octet-stream is sniffed during extraction
+const ALLOWED_CONTENT_TYPES = [
+  "text/",
+  "application/xhtml+xml",
+  "application/pdf",
+  "image/",
+  "application/msword",
+  "application/vnd.ms-",
+  "application/vnd.openxmlformats-officedocument.",
+  "application/epub+zip",
+  "application/rtf",
+  "message/rfc822",
+  "application/octet-stream",
+];
+
+// Images an article links to that are downloaded and stored with it
+const MAX_ARTICLE_IMAGES = 30;
+const MAX_ARTICLE_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+const ARTICLE_IMAGE_TIMEOUT_MS = 15_000;
+
+export interface ScrapedUrl {
+  blobUrl: string;
+  fileName: string;
+  /** Content type of the source, e.g. text/html or application/pdf. */
+  fileType: string;
+  fileSize: number;
+  /** SHA-256 of the fetched content, when it could be fetched directly. */
+  contentHash?: string;
+  markdown: string;
+  images: string[];
+  /** Whether the markdown came from the extraction cache. */
+  cached?: boolean;
+  title?: string | null;
+  byline?: string | null;
+  publishedAt?: Date | null;
+  /** For web pages: the scraper backend that produced the content, and every backend tried. */
+  scrapeBackend?: ScraperBackendName;
+  scrapeAttempts?: ScrapeAttempt[];
+  /** When following pagination: pages joined (including the first), and why it stopped early. */
+  pagination?: PaginationOutcome;
+}
 
-/**
- * Scrape a URL and return the extracted text as markdown along with the blob URL.
- * Uses Jina Reader API to render JavaScript-heavy pages, with direct fetch as fallback.
- */
-export async function scrapeUrl(
-  url: string,
-  userId: string
-): Promise<{ blobUrl: string; fileName: string; markdown: string }> {
-  // Generate a safe filename from the URL
-  const urlObj = new URL(url);
-  const fileName =
-    `${urlObj.hostname}${urlObj.pathname}`
-      .replace(/[^a-zA-Z0-9]/g, "_")
-      .slice(0, 100) + ".html";
-
-  // Try Jina Reader first (handles JS-rendered SPAs)
-  let markdown = await fetchViaJinaReader(url);
-
-  // Fallback: direct fetch + HTML-to-markdown if Jina fails or returns empty
-  if (!markdown) {
-    const { content, contentType } = await directFetch(url);
+export interface PaginationOutcome {
+  pages: number;
+  error?: string;
+}
 
-    // Store in blob storage
-    const blob = await put(
-      `documents/${userId}/${crypto.randomUUID()}-${fileName}`,
-      new Blob([content], { type: contentType }),
-      { access: "public" }
-    );
+export interface ScrapeOptions {
+  /** Follow "next page" links on the same host and join the pages into one document. */
+  followPagination?: boolean;
+}
 
-    const html = new TextDecoder().decode(content);
-    markdown = htmlToMarkdown(html);
+function isHtml(contentType: string): boolean {
+  return /text\/html|application\/xhtml\+xml/i.test(contentType);
+}
 
-    return { blobUrl: blob.url, fileName, markdown };
+/**
+ * Generate a safe filename from the URL. Binary documents keep the name and
+ * extension from the URL path so extraction can recognize the format.
+ */
+function fileNameForUrl(urlObj: URL, contentType: string): string {
+  if (!isHtml(contentType)) {
+    let lastSegment = urlObj.pathname.split("/").pop() || "";
+    try {
+      lastSegment = decodeURIComponent(lastSegment);
+    } catch {
+      // Keep the encoded name
+    }
+    if (/^[^/\\]+\.[a-z0-9]{2,5}$/i.test(lastSegment)) return lastSegment.slice(-100);
   }
 
-  // Store the Jina Reader markdown in blob storage for reference
-  const blob = await put(
-    `documents/${userId}/${crypto.randomUUID()}-${fileName}`,
-    new Blob([markdown], { type: "text/markdown" }),
-    { access: "public" }
-  );
-
-  return { blobUrl: blob.url, fileName, markdown };
+  const base = `${urlObj.hostname}${urlObj.pathname}`.replace(/[^a-zA-Z0-9]/g, "_").slice(0, 100);
+  if (isHtml(contentType)) return `${base}.html`;
+  const subtype = contentType.split(";")[0].split("/")[1]?.replace("jpeg", "jpg").replace(/\+.*$/, "");
+  return subtype ? `${base}.${subtype}` : base;
 }
 
 /**
- * Fetch a URL via Jina Reader API which renders JavaScript and returns markdown.
- * Returns the markdown string, or empty string if the request fails.
+ * Scrape a URL and return the extracted text as markdown along with the blob URL.
+ * Web pages go through the configured scraper backend chain (see SCRAPER_BACKENDS).
+ * Other content such as PDFs and images is stored as-is and goes through the
+ * same extraction as uploaded files.
  */
-async function fetchViaJinaReader(url: string): Promise<string> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 60000);
+export async function scrapeUrl(url: string, userId: string, options: ScrapeOptions = {}): Promise<ScrapedUrl> {
+  const urlObj = new URL(url);
+  // Refuse local and private hosts up front so they are not handed to a scraper backend either
+  await assertPublicUrl(url);
 
+  // Rendering backends may still succeed when the direct fetch is refused; the
+  // direct backend's attempt then records that the page could not be fetched
+  let fetched: FetchedPage | null = null;
   try {
-    const response = await fetch(`https://r.jina.ai/${url}`, {
-      headers: {
-        Accept: "text/markdown",
-        "X-Return-Format": "markdown",
-        "X-No-Cache": "true",
-      },
-      signal: controller.signal,
+    fetched = await directFetch(url);
+  } catch {
+    fetched = null;
+  }
+
+  // Binary documents: store the original file and extract it like an upload
+  if (fetched && !isHtml(fetched.contentType)) {
+    const fileName = fileNameForUrl(urlObj, fetched.contentType);
+    const buffer = fetched.content;
+    const blob = await put(`documents/${userId}/${crypto.randomUUID()}-${fileName}`, buffer, {
+      access: "public",
+      contentType: fetched.contentType,
     });
+    const extracted = await extractFile(buffer, fetched.contentType, fileName, blob.url, userId);
+    return {
+      blobUrl: blob.url,
+      fileName,
+      fileType: fetched.contentType,
+      fileSize: buffer.length,
+      contentHash: hashContent(buffer),
+      markdown: extracted.markdown,
+      images: extracted.images,
+      cached: extracted.cached,
+    };
+  }
 
-    if (!response.ok) {
-      return "";
-    }
+  const fileName = fileNameForUrl(urlObj, "text/html");
+
+  // Identical HTML at another URL may be an app shell that renders different
+  // content, so cached pages are keyed by URL and content. Paginated articles
+  // depend on the pages that follow, so they are not cached.
+  const cacheKey = fetched && !options.followPagination ? hashContent(url, "\n", fetched.content) : null;
+  const cached = cacheKey ? await getCachedExtraction(cacheKey) : null;
+  if (fetched && cached) {
+    const blob = await put(`documents/${userId}/${crypto.randomUUID()}-${fileName}`, fetched.content, {
+      access: "public",
+      contentType: fetched.contentType,
+    });
+    return {
+      blobUrl: blob.url,
+      fileName,
+      fileType: fetched.contentType,
+      fileSize: fetched.content.byteLength,
+      contentHash: hashContent(fetched.content),
+      markdown: cached.markdown,
+      images: cached.images,
+      cached: true,
+    };
+  }
 
-    const text = await response.text();
+  const { page, backend, attempts } = await runScraperChain(url, fetched);
 
-    // Check if the result has meaningful content
-    const stripped = text.replace(/\s+/g, " ").trim();
-    if (stripped.length < 50) {
-      return "";
-    }
+  // Store what the backend worked from (rendered HTML, reader markdown, ...) for reference
+  const blob = await put(`documents/${userId}/${crypto.randomUUID()}-${fileName}`, page.source.content, {
+    access: "public",
+    contentType: page.source.contentType,
+  });
 
-    return text;
-  } catch {
-    return "";
-  } finally {
-    clearTimeout(timeout);
+  let markdown = page.markdown;
+  let pagination: PaginationOutcome | undefined;
+  if (options.followPagination && fetched) {
+    const following = await scrapeFollowingPages(url, fetched, page.title);
+    markdown = [markdown, ...following.markdowns].join("\n\n");
+    pagination = { pages: following.markdowns.length + 1, error: following.error };
+  }
+
+  const stored = await storeArticleImages(markdown, userId);
+  markdown = stored.markdown;
+  const images = stored.images;
+  if (cacheKey) {
+    await cacheExtraction(cacheKey, stored);
   }
+
+  return {
+    blobUrl: blob.url,
+    fileName,
+    fileType: fetched?.contentType ?? page.source.contentType,
+    fileSize: fetched?.content.byteLength ?? Buffer.byteLength(page.source.content),
+    contentHash: fetched ? hashContent(fetched.content) : undefined,
+    markdown,
+    images,
+    title: page.title,
+    byline: page.byline,
+    publishedAt: page.publishedAt,
+    scrapeBackend: backend,
+    scrapeAttempts: attempts,
+    pagination,
+  };
 }
 
 /**
- * Direct HTTP fetch of a URL. Used as fallback when Jina Reader fails.
+ * Fetch the pages after `url` by following its "next page" links, up to
+ * MAX_PAGINATION_PAGES in total. Stops at the first page that cannot be
+ * fetched or scraped, keeping what was collected so far and returning the error.
  */
-async function directFetch(url: string): Promise<{ content: ArrayBuffer; contentType: string }> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 30000);
-
-  try {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; elasticdocument/1.0)",
-      },
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch URL (${response.status}): ${url}`);
+async function scrapeFollowingPages(
+  url: string,
+  first: FetchedPage,
+  title: string | null | undefined
+): Promise<{ markdowns: string[]; error?: string }> {
+  const markdowns: string[] = [];
+  const visited = new Set([url]);
+  let current = { url, fetched: first };
+
+  while (markdowns.length + 1 < MAX_PAGINATION_PAGES) {
+    const nextUrl = findNextPageUrl(decodeText(current.fetched.content, current.fetched.contentType), current.url);
+    if (!nextUrl || visited.has(nextUrl)) break;
+    visited.add(nextUrl);
+
+    try {
+      await assertPublicUrl(nextUrl);
+      const fetched = await directFetch(nextUrl);
+      if (!isHtml(fetched.contentType)) break;
+
+      const { page } = await runScraperChain(nextUrl, fetched);
+      // Later pages repeat the article title; keep it only once
+      const heading = title ? `# ${title}` : null;
+      const markdown = heading && page.markdown.startsWith(heading) ? page.markdown.slice(heading.length).trim() : page.markdown;
+      markdowns.push(markdown);
+      current = { url: nextUrl, fetched };
+    } catch (err) {
+      const error = `Stopped at ${nextUrl}: ${err instanceof Error ? err.message : "Unknown error"}`;
+      return { markdowns, error };
     }
+  }
 
-    const contentType = response.headers.get("content-type") || "text/html";
-    const content = await response.arrayBuffer();
+  return { markdowns };
+}
 
-    return { content, contentType };
-  } finally {
-    clearTimeout(timeout);
-  }
+/**
+ * Download the images a scraped page links to through the SSRF-safe fetcher
+ * and store them like extracted images (downscaled, WebP, deduplicated),
+ * pointing the markdown at the stored copies. Images that cannot be fetched,
+ * are too small to matter or are beyond MAX_ARTICLE_IMAGES are removed from
+ * the markdown.
+ */
+async function storeArticleImages(markdown: string, userId: string): Promise<{ markdown: string; images: string[] }> {
+  const imagePattern = /!\[([^\]]*)\]\((https?:\/\/[^)\s]+)([^)]*)\)/g;
+  const urls = [...new Set([...markdown.matchAll(imagePattern)].map((m) => m[2]))];
+
+  const stored = await withImageDedupe(() =>
+    Promise.all(
+      urls.slice(0, MAX_ARTICLE_IMAGES).map(async (url) => {
+        try {
+          const response = await safeFetch(url, {
+            timeoutMs: ARTICLE_IMAGE_TIMEOUT_MS,
+            maxBytes: MAX_ARTICLE_IMAGE_SIZE,
+            allowedContentTypes: ["image/"],
+          });
+          return uploadImage(response.content, response.contentType.split(";")[0].trim(), userId);
+        } catch {
+          return null;
+        }
+      })
+    )
+  );
+  const storedUrls = new Map(urls.map((url, i) => [url, stored[i] ?? null]));
+
+  return {
+    markdown: markdown.replace(imagePattern, (_image, alt, url, rest) => {
+      const storedUrl = storedUrls.get(url);
+      return storedUrl ? `![${alt}](${storedUrl}${rest})` : "";
+    }),
+    images: [...new Set(stored.filter((url): url is string => !!url))],
+  };
 }
 
 /**
- * Lightweight HTML to markdown converter.
- * Strips scripts, styles, and tags, preserving structure.
+ * Direct HTTP fetch of a URL. Used to detect the content type, and as the
+ * page source for the direct scraper backend.
  */
-function htmlToMarkdown(html: string): string {
-  let text = html;
-
-  // Remove script and style blocks
-  text = text.replace(/<script[\s\S]*?<\/script>/gi, "");
-  text = text.replace(/<style[\s\S]*?<\/style>/gi, "");
-  text = text.replace(/<noscript[\s\S]*?<\/noscript>/gi, "");
-
-  // Convert headings
-  text = text.replace(/<h1[^>]*>([\s\S]*?)<\/h1>/gi, "\n# $1\n");
-  text = text.replace(/<h2[^>]*>([\s\S]*?)<\/h2>/gi, "\n## $1\n");
-  text = text.replace(/<h3[^>]*>([\s\S]*?)<\/h3>/gi, "\n### $1\n");
-  text = text.replace(/<h4[^>]*>([\s\S]*?)<\/h4>/gi, "\n#### $1\n");
-  text = text.replace(/<h5[^>]*>([\s\S]*?)<\/h5>/gi, "\n##### $1\n");
-  text = text.replace(/<h6[^>]*>([\s\S]*?)<\/h6>/gi, "\n###### $1\n");
-
-  // Convert paragraphs and divs to line breaks
-  text = text.replace(/<\/p>/gi, "\n\n");
-  text = text.replace(/<br\s*\/?>/gi, "\n");
-  text = text.replace(/<\/div>/gi, "\n");
-
-  // Convert list items
-  text = text.replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, "- $1\n");
-
-  // Convert links: <a href="url">text</a> → [text](url)
-  text = text.replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, "[$2]($1)");
-
-  // Convert bold/italic
-  text = text.replace(/<(strong|b)[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**");
-  text = text.replace(/<(em|i)[^>]*>([\s\S]*?)<\/\1>/gi, "*$2*");
-
-  // Convert blockquotes
-  text = text.replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, "> $1\n");
-
-  // Convert pre/code blocks
-  text = text.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, "\n```\n$1\n```\n");
-  text = text.replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, "`$1`");
-
-  // Remove all remaining HTML tags
-  text = text.replace(/<[^>]+>/g, "");
-
-  // Decode common HTML entities
-  text = text.replace(/&amp;/g, "&");
-  text = text.replace(/&lt;/g, "<");
-  text = text.replace(/&gt;/g, ">");
-  text = text.replace(/&quot;/g, '"');
-  text = text.replace(/&#39;/g, "'");
-  text = text.replace(/&nbsp;/g, " ");
-  text = text.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
-
-  // Clean up whitespace: collapse runs of blank lines
-  text = text.replace(/[ \t]+/g, " ");
-  text = text.replace(/\n[ \t]+/g, "\n");
-  text = text.replace(/\n{3,}/g, "\n\n");
-
-  return text.trim();
+async function directFetch(url: string): Promise<FetchedPage> {
+  const response = await safeFetch(url, {
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; elasticdocument/1.0)",
+    },
+    allowedContentTypes: ALLOWED_CONTENT_TYPES,
+  });
+  return { content: response.content, contentType: response.contentType };
 }
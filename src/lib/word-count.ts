@@ -0,0 +1,23 @@
+// Reading speed the reading-time budget is based on
+export const WORDS_PER_MINUTE = 230;
+
+/**
+ * Count the words a reader reads in markdown: image references, link URLs,
+ * HTML tags and markdown syntax (heading, list and quote markers, emphasis,
+ * table pipes, rules and code fences) are not counted.
+ */
+export function countReadableWords(markdown: string): number {
+  const text = markdown
+    .replace(/^\s*(```|~~~).*$/gm, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/^\s{0,3}(#{1,6}|>+|[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/[|*_~`#]/g, " ");
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/** Reading time in minutes of a text with this many words. */
+export function readingMinutesFor(words: number): number {
+  return words / WORDS_PER_MINUTE;
+}
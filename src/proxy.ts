@@ -12,5 +12,5 @@ export function proxy(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ["/dashboard/:path*", "/process/:path*", "/history/:path*", "/result/:path*"],
+  matcher: ["/dashboard/:path*", "/process/:path*", "/history/:path*", "/result/:path*", "/feeds/:path*"],
 };